@@ -0,0 +1,107 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+
+// Load environment variables before any service reads config
+dotenv.config({ path: '.env.local' });
+
+const USAGE = `Usage: npm run embedding-cache -- <command> [options]
+
+  stats                          entries, hit rate and evictions
+  warm                           embed every indexed chunk with the configured provider
+  warm --file <file>             embed the products of a Shopify CSV export, or one text per line
+  purge                          remove every entry and reset the stats
+  purge [--provider <name>] [--model <name>] [--older-than <days>]
+                                 remove only matching entries`;
+
+const WARM_BATCH_SIZE = 20;
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  if (index + 1 >= args.length) throw new Error(`${name} needs a value`);
+  return args[index + 1];
+}
+
+async function textsToWarm(file?: string): Promise<string[]> {
+  if (!file) {
+    const { getChunkStore } = await import('../src/services/chunk-store.service');
+    return (await getChunkStore().list()).map((chunk) => chunk.content);
+  }
+
+  const content = fs.readFileSync(file, 'utf-8');
+  if (file.toLowerCase().endsWith('.csv')) {
+    // The same product texts an upload of the export would embed
+    const { getShopifyCsvProcessorService } = await import('../src/services/shopify-csv-processor.service');
+    const log = console.log;
+    console.log = () => undefined;
+    try {
+      const products = await getShopifyCsvProcessorService().processShopifyCsv(content, file);
+      return products.map((product) => product.content);
+    } finally {
+      console.log = log;
+    }
+  }
+  return content.split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+async function run() {
+  const [command, ...args] = process.argv.slice(2);
+  const { getEmbeddingCache } = await import('../src/services/embedding-cache.service');
+  const cache = getEmbeddingCache();
+
+  switch (command) {
+    case 'stats': {
+      const stats = await cache.stats();
+      console.log(`Entries:   ${stats.entries} of ${stats.maxEntries}`);
+      console.log(`Hit rate:  ${(stats.hitRate * 100).toFixed(1)}% (${stats.hits} hits, ${stats.misses} misses)`);
+      console.log(`Evictions: ${stats.evictions}`);
+      for (const [model, entries] of Object.entries(stats.models)) {
+        console.log(`  ${model}: ${entries}`);
+      }
+      break;
+    }
+
+    case 'warm': {
+      const { config } = await import('../src/lib/config');
+      if (!config.embeddingCache.enabled) throw new Error('The embedding cache is disabled (EMBEDDING_CACHE=false)');
+      const { getEmbeddingProvider } = await import('../src/services/embedding-provider.service');
+      const provider = getEmbeddingProvider();
+
+      const texts = await textsToWarm(option(args, '--file'));
+      const before = await cache.stats();
+      console.log(`Warming ${texts.length} texts with ${provider.name} (${provider.model})`);
+      for (let i = 0; i < texts.length; i += WARM_BATCH_SIZE) {
+        await provider.createEmbeddings(texts.slice(i, i + WARM_BATCH_SIZE));
+        console.log(`  ${Math.min(i + WARM_BATCH_SIZE, texts.length)}/${texts.length}`);
+      }
+
+      const after = await cache.stats();
+      console.log(
+        `Done: ${after.misses - before.misses} embedded, ${after.hits - before.hits} already cached, ${after.entries} entries`
+      );
+      break;
+    }
+
+    case 'purge': {
+      const olderThan = option(args, '--older-than');
+      if (olderThan !== undefined && !(Number(olderThan) >= 0)) throw new Error('--older-than must be a number of days');
+
+      const removed = await cache.purge({
+        provider: option(args, '--provider'),
+        model: option(args, '--model'),
+        olderThanDays: olderThan !== undefined ? Number(olderThan) : undefined,
+      });
+      console.log(`Removed ${removed} entries`);
+      break;
+    }
+
+    default:
+      console.error(command ? `Unknown command: ${command}\n\n${USAGE}` : USAGE);
+      process.exitCode = 1;
+  }
+}
+
+run().catch((error) => {
+  console.error('Embedding cache command failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,167 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { EvaluationRun, GoldenSet } from '../src/types';
+import type { EvaluationDiff } from '../src/lib/retrieval-metrics';
+
+// Load environment variables before any service reads config
+dotenv.config({ path: '.env.local' });
+
+const USAGE = `Usage: npm run evaluate -- <golden-set.json> [options]
+
+  --offline             ingest the set's corpus into a temporary local store with the
+                        deterministic hash embedder (no network, no API keys)
+  --k <n>               results scored per query (default: the set's k, or 10)
+  --out <file>          write the run as JSON, to diff against later
+  --baseline <file>     compare with a previous run
+  --fail-on-regression  exit with status 1 when a mean metric dropped below the baseline
+  --verbose             keep ingestion and retrieval logs`;
+
+interface Args {
+  setPath: string;
+  offline: boolean;
+  k?: number;
+  out?: string;
+  baseline?: string;
+  failOnRegression: boolean;
+  verbose: boolean;
+}
+
+function parseArgs(argv: string[]): Args {
+  const args: Partial<Args> = { offline: false, failOnRegression: false, verbose: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) throw new Error(`${arg} needs a value`);
+      return argv[++i];
+    };
+    switch (arg) {
+      case '--offline': args.offline = true; break;
+      case '--fail-on-regression': args.failOnRegression = true; break;
+      case '--verbose': args.verbose = true; break;
+      case '--k': {
+        args.k = Number(value());
+        if (!Number.isInteger(args.k) || args.k < 1) throw new Error('--k must be a positive integer');
+        break;
+      }
+      case '--out': args.out = value(); break;
+      case '--baseline': args.baseline = value(); break;
+      default:
+        if (arg.startsWith('--') || args.setPath) throw new Error(`Unexpected argument: ${arg}`);
+        args.setPath = arg;
+    }
+  }
+  if (!args.setPath) throw new Error('A golden set file is required');
+  return args as Args;
+}
+
+const readJson = <T>(file: string): T => JSON.parse(fs.readFileSync(file, 'utf-8'));
+const format = (value: number) => value.toFixed(3);
+const signed = (delta: number) => `${delta >= 0 ? '+' : ''}${delta.toFixed(3)}`;
+
+function printRun(run: EvaluationRun, diff?: EvaluationDiff) {
+  console.log(`\n${run.name || 'Evaluation'}: ${run.queries.length} queries, k=${run.k}\n`);
+  for (const query of run.queries) {
+    console.log(
+      `  ${query.id.padEnd(28)} recall ${format(query.recall)}  mrr ${format(query.mrr)}  ndcg ${format(query.ndcg)}` +
+        (query.missing.length ? `  missing: ${query.missing.join(', ')}` : '')
+    );
+  }
+
+  console.log('');
+  for (const metric of ['recall', 'mrr', 'ndcg'] as const) {
+    const change = diff ? `  (${signed(diff.metrics[metric].delta)} vs ${format(diff.metrics[metric].baseline)})` : '';
+    console.log(`  mean ${metric.padEnd(7)}${format(run.metrics[metric])}${change}`);
+  }
+  if (!diff) return;
+
+  const describe = (label: string, changes: EvaluationDiff['improved']) => {
+    if (changes.length === 0) return;
+    console.log(`\n  ${label}:`);
+    for (const { id, changes: metrics } of changes) {
+      const details = Object.entries(metrics)
+        .map(([metric, change]) => `${metric} ${format(change.baseline)} -> ${format(change.current)}`)
+        .join(', ');
+      console.log(`    ${id}: ${details}`);
+    }
+  };
+  describe('Regressed', diff.regressed);
+  describe('Improved', diff.improved);
+  if (diff.added.length) console.log(`\n  New queries: ${diff.added.join(', ')}`);
+  if (diff.removed.length) console.log(`\n  Queries no longer in the set: ${diff.removed.join(', ')}`);
+}
+
+async function evaluate() {
+  let args: Args;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    process.exit(1);
+  }
+  const set = readJson<GoldenSet>(args.setPath);
+
+  let dataDir: string | undefined;
+  if (args.offline) {
+    // Must be set before the services are imported, since config is read at import time
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-eval-'));
+    Object.assign(process.env, {
+      DATA_DIR: dataDir,
+      VECTOR_STORE_PROVIDER: 'local',
+      EMBEDDING_PROVIDER: 'hash',
+      LLM_PROVIDER: 'stub',
+    });
+  }
+
+  const log = console.log;
+  const quiet = () => {
+    if (!args.verbose) console.log = () => undefined;
+  };
+  const loud = () => {
+    console.log = log;
+  };
+
+  try {
+    const { getDocumentProcessingService } = await import('../src/services/document-processing.service');
+    const { getEvaluationService } = await import('../src/services/evaluation.service');
+    const { compareRuns, hasRegressed } = await import('../src/lib/retrieval-metrics');
+
+    if (args.offline) {
+      const corpus = set.corpus || [];
+      if (corpus.length === 0) throw new Error('--offline needs a corpus in the golden set');
+      log(`Indexing ${corpus.length} corpus file(s) into ${dataDir}`);
+      quiet();
+      for (const file of corpus) {
+        const filePath = path.resolve(path.dirname(args.setPath), file);
+        await getDocumentProcessingService().processFile(fs.readFileSync(filePath), path.basename(filePath));
+      }
+      loud();
+    }
+
+    quiet();
+    const run = await getEvaluationService().evaluate(set, args.k);
+    loud();
+
+    const diff = args.baseline ? compareRuns(run, readJson<EvaluationRun>(args.baseline)) : undefined;
+    printRun(run, diff);
+
+    if (args.out) {
+      fs.mkdirSync(path.dirname(path.resolve(args.out)), { recursive: true });
+      fs.writeFileSync(args.out, JSON.stringify(run, null, 2));
+      console.log(`\nWrote ${args.out}`);
+    }
+    if (args.failOnRegression && diff && hasRegressed(diff)) {
+      console.error('\nRetrieval quality regressed');
+      process.exitCode = 1;
+    }
+  } finally {
+    loud();
+    if (dataDir) fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+evaluate().catch((error) => {
+  console.error('Evaluation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
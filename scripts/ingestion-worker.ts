@@ -0,0 +1,27 @@
+import dotenv from 'dotenv';
+
+// Load environment variables before any service reads config
+dotenv.config({ path: '.env.local' });
+
+async function runWorker() {
+  const { getIngestionWorker } = await import('../src/services/ingestion-worker.service');
+  const worker = getIngestionWorker();
+
+  const shutdown = () => {
+    console.log('Stopping ingestion worker...');
+    worker.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  await worker.start();
+
+  // The polling timer is unref'd, so keep the process alive explicitly
+  setInterval(() => undefined, 1 << 30);
+}
+
+runWorker().catch((error) => {
+  console.error('Ingestion worker failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnswerService } from '@/services/answer.service';
+import { validateQueryMode } from '@/services/query-expansion.service';
+import { validateTopK } from '@/services/retrieval.service';
+import { parseRerankOption } from '@/lib/rerank-options';
+import { validateRankingPolicyName } from '@/lib/ranking-policy';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+    const { question, topK, prioritizeProducts = false, lexicalWeight, rerank, rankingPolicy, queryMode } = body;
+
+    if (typeof question !== 'string' || !question.trim()) {
+      return NextResponse.json(
+        { error: 'Question is required' },
+        { status: 400 }
+      );
+    }
+    const topKError = validateTopK(topK);
+    if (topKError) {
+      return NextResponse.json(
+        { error: topKError },
+        { status: 400 }
+      );
+    }
+    if (lexicalWeight !== undefined && (typeof lexicalWeight !== 'number' || lexicalWeight < 0 || lexicalWeight > 1)) {
+      return NextResponse.json(
+        { error: 'lexicalWeight must be a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+    const rerankOption = parseRerankOption(rerank);
+    if (rerankOption.error) {
+      return NextResponse.json(
+        { error: rerankOption.error },
+        { status: 400 }
+      );
+    }
+    const policyError = validateRankingPolicyName(rankingPolicy);
+    if (policyError) {
+      return NextResponse.json(
+        { error: policyError },
+        { status: 400 }
+      );
+    }
+    const queryModeError = validateQueryMode(queryMode);
+    if (queryModeError) {
+      return NextResponse.json(
+        { error: queryModeError },
+        { status: 400 }
+      );
+    }
+
+    const result = await getAnswerService().answer(question.trim(), {
+      topK,
+      prioritizeProducts,
+      lexicalWeight,
+      rerank: rerankOption.rerank,
+      rankingPolicy,
+      queryMode,
+    });
+
+    return NextResponse.json({
+      success: true,
+      question: question.trim(),
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error answering question:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to answer question',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
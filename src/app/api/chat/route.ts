@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { getChatService } from '@/services/chat.service';
+import { validateQueryMode } from '@/services/query-expansion.service';
+import { validateTopK } from '@/services/retrieval.service';
+import { parseRerankOption } from '@/lib/rerank-options';
+import { validateRankingPolicyName } from '@/lib/ranking-policy';
+import { ChatMessage } from '@/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const SESSION_ID_PATTERN = /^[\w-]{1,100}$/;
+
+// System messages come only from the server: a client's could override the grounding instructions
+const isChatMessage = (value: any): value is ChatMessage =>
+  ['user', 'assistant'].includes(value?.role) && typeof value?.content === 'string';
+
+// Server-Sent Events stream of a chat turn: a `session` event with the
+// standalone retrieval query, `token` events as the answer is generated, a
+// final `citations` event, or `failed` if the turn could not be answered.
+//
+// Send either the full `messages` history (last one from the user) or a single
+// `message` with a `sessionId` to continue a persisted conversation.
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  const { messages, topK, prioritizeProducts, lexicalWeight, rerank, rankingPolicy, queryMode, persist = false } = body;
+  let { message, sessionId } = body;
+  let history: ChatMessage[] | undefined;
+
+  if (messages !== undefined) {
+    if (!Array.isArray(messages) || messages.length === 0 || !messages.every(isChatMessage)) {
+      return NextResponse.json(
+        { error: 'messages must be a non-empty array of { role, content } objects' },
+        { status: 400 }
+      );
+    }
+    if (messages[messages.length - 1].role !== 'user') {
+      return NextResponse.json(
+        { error: 'The last message must be from the user' },
+        { status: 400 }
+      );
+    }
+    message = messages[messages.length - 1].content;
+    history = messages.slice(0, -1);
+  }
+
+  if (typeof message !== 'string' || !message.trim()) {
+    return NextResponse.json(
+      { error: 'Message is required' },
+      { status: 400 }
+    );
+  }
+
+  if (sessionId !== undefined && (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId))) {
+    return NextResponse.json(
+      { error: 'sessionId may only contain letters, digits, "-" and "_" (up to 100 characters)' },
+      { status: 400 }
+    );
+  }
+  const topKError = validateTopK(topK);
+  if (topKError) {
+    return NextResponse.json(
+      { error: topKError },
+      { status: 400 }
+    );
+  }
+  if (lexicalWeight !== undefined && (typeof lexicalWeight !== 'number' || lexicalWeight < 0 || lexicalWeight > 1)) {
+    return NextResponse.json(
+      { error: 'lexicalWeight must be a number between 0 and 1' },
+      { status: 400 }
+    );
+  }
+  const rerankOption = parseRerankOption(rerank);
+  if (rerankOption.error) {
+    return NextResponse.json(
+      { error: rerankOption.error },
+      { status: 400 }
+    );
+  }
+  const policyError = validateRankingPolicyName(rankingPolicy);
+  if (policyError) {
+    return NextResponse.json(
+      { error: policyError },
+      { status: 400 }
+    );
+  }
+  const queryModeError = validateQueryMode(queryMode);
+  if (queryModeError) {
+    return NextResponse.json(
+      { error: queryModeError },
+      { status: 400 }
+    );
+  }
+  if (!sessionId && persist) {
+    sessionId = uuidv4();
+  }
+
+  const encoder = new TextEncoder();
+  // Once the client has gone away the stream is cancelled, and enqueueing or closing it throws
+  let cancelled = false;
+  const disconnected = () => cancelled || request.signal.aborted;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!disconnected()) {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        }
+      };
+
+      try {
+        const events = getChatService().chat({
+          message: message.trim(),
+          history,
+          sessionId,
+          topK,
+          prioritizeProducts,
+          lexicalWeight,
+          rerank: rerankOption.rerank,
+          rankingPolicy,
+          queryMode,
+        });
+
+        for await (const { type, ...data } of events) {
+          // Stop generating once the client has gone away
+          if (disconnected()) break;
+          send(type, data);
+        }
+      } catch (error) {
+        console.error('Error streaming chat response:', error);
+        send('failed', {
+          message: error instanceof Error ? error.message : 'Failed to generate a response',
+        });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already cancelled by the client
+        }
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
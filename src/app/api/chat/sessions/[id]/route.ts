@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChatSessionService } from '@/services/chat-session.service';
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The persisted conversation, so a client can restore it when it resumes
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const session = await getChatSessionService().get(id);
+
+  if (!session) {
+    return NextResponse.json(
+      { success: false, message: `Chat session '${id}' not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    session,
+  });
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const deleted = await getChatSessionService().delete(id);
+
+  if (!deleted) {
+    return NextResponse.json(
+      { success: false, message: `Chat session '${id}' not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: `Chat session '${id}' deleted`,
+  });
+}
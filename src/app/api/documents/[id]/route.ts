@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentRegistryService } from '@/services/document-registry.service';
+import { getDocumentProcessingService } from '@/services/document-processing.service';
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const document = await getDocumentRegistryService().get(id);
+
+    if (!document) {
+      return NextResponse.json(
+        { error: `Document '${id}' not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      document,
+    });
+  } catch (error) {
+    console.error('Error fetching document:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch document',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await getDocumentProcessingService().deleteDocument(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: `Document '${id}' not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Document '${id}' deleted`,
+    });
+  } catch (error) {
+    console.error('Error deleting document:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete document',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
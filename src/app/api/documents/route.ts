@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentRegistryService } from '@/services/document-registry.service';
+import { DocumentMetadata } from '@/types';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const source = request.nextUrl.searchParams.get('source') as DocumentMetadata['source'] | null;
+    const documents = await getDocumentRegistryService().list(source || undefined);
+
+    return NextResponse.json({
+      success: true,
+      total: documents.length,
+      documents: documents.map(({ chunkIds, ...document }) => ({
+        ...document,
+        chunkCount: chunkIds.length,
+      })),
+    });
+  } catch (error) {
+    console.error('Error listing documents:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list documents',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getIngestionJobService } from '@/services/ingestion-job.service';
+import { toUploadStage } from '@/lib/job-client';
+import { JobCompleteEvent, UploadProgress } from '@/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL_MS = 500;
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Server-Sent Events stream of an ingestion job's progress: `progress` events,
+// then a final `complete` (with document ids) or `failed` event.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const jobService = getIngestionJobService();
+
+  if (!(await jobService.get(id))) {
+    return NextResponse.json(
+      { error: `Job '${id}' not found` },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  // Once the client has gone away the stream is cancelled, and enqueueing or closing it throws
+  let cancelled = false;
+  const disconnected = () => cancelled || request.signal.aborted;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (text: string) => {
+        if (!disconnected()) controller.enqueue(encoder.encode(text));
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      // The worker may run in another process, so follow the persisted job state
+      let lastSent = '';
+      let lastWrite = Date.now();
+
+      try {
+        while (!disconnected()) {
+          const job = await jobService.get(id);
+          if (!job) {
+            send('failed', { message: `Job '${id}' no longer exists` });
+            break;
+          }
+
+          const progress: UploadProgress = {
+            stage: toUploadStage(job.stage),
+            progress: job.progress,
+            message: job.message,
+          };
+
+          if (job.status === 'completed') {
+            const complete: JobCompleteEvent = { ...progress, documentIds: job.documentIds };
+            send('complete', complete);
+            break;
+          }
+          if (job.status === 'failed') {
+            send('failed', { message: job.error || job.message });
+            break;
+          }
+
+          const serialized = JSON.stringify(progress);
+          if (serialized !== lastSent) {
+            send('progress', progress);
+            lastSent = serialized;
+            lastWrite = Date.now();
+          } else if (Date.now() - lastWrite > HEARTBEAT_INTERVAL_MS) {
+            // Comment line keeps proxies from closing an idle connection
+            write(': heartbeat\n\n');
+            lastWrite = Date.now();
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error(`Error streaming progress for job ${id}:`, error);
+        send('failed', { message: 'Failed to read job progress' });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already cancelled by the client
+        }
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
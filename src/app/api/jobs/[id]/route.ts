@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getIngestionJobService } from '@/services/ingestion-job.service';
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = await getIngestionJobService().get(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: `Job '${id}' not found` },
+        { status: 404 }
+      );
+    }
+
+    // The server-side file path is an implementation detail
+    const { filePath, ...publicJob } = job;
+
+    return NextResponse.json({
+      success: true,
+      job: publicJob,
+    });
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,30 +1,91 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getPineconeService } from '@/services/pinecone.service';
-import { getOpenAIService } from '@/services/openai.service';
+import { config } from '@/lib/config';
+import { getRetrievalService, validateTopK } from '@/services/retrieval.service';
+import { getQueryExpansionService, validateQueryMode } from '@/services/query-expansion.service';
+import { describeSource } from '@/lib/citation';
+import { parseRerankOption } from '@/lib/rerank-options';
+import { validateRankingPolicyName } from '@/lib/ranking-policy';
+import { validateCollapseMode, validateDiversity } from '@/lib/diversification';
 
 export async function POST(request: NextRequest) {
   try {
-    const { query, prioritizeProducts = true, topK = 10 } = await request.json();
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+    const {
+      query,
+      prioritizeProducts = true,
+      topK = 10,
+      lexicalWeight,
+      rerank,
+      rankingPolicy,
+      diversity,
+      collapse,
+      queryMode = config.queryExpansion.defaultMode,
+    } = body;
 
-    if (!query) {
+    if (typeof query !== 'string' || !query.trim()) {
       return NextResponse.json(
         { error: 'Query is required' },
         { status: 400 }
       );
     }
+    const topKError = validateTopK(topK);
+    if (topKError) {
+      return NextResponse.json(
+        { error: topKError },
+        { status: 400 }
+      );
+    }
+    if (lexicalWeight !== undefined && (typeof lexicalWeight !== 'number' || lexicalWeight < 0 || lexicalWeight > 1)) {
+      return NextResponse.json(
+        { error: 'lexicalWeight must be a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+    const rerankOption = parseRerankOption(rerank);
+    if (rerankOption.error) {
+      return NextResponse.json(
+        { error: rerankOption.error },
+        { status: 400 }
+      );
+    }
+    const policyError = validateRankingPolicyName(rankingPolicy);
+    if (policyError) {
+      return NextResponse.json(
+        { error: policyError },
+        { status: 400 }
+      );
+    }
+    const diversityError =
+      validateDiversity(diversity) || validateCollapseMode(collapse) || validateQueryMode(queryMode);
+    if (diversityError) {
+      return NextResponse.json(
+        { error: diversityError },
+        { status: 400 }
+      );
+    }
 
     // Get services
-    const pineconeService = getPineconeService();
-    const openAIService = getOpenAIService();
+    const retrievalService = getRetrievalService();
+    const queryExpansionService = getQueryExpansionService();
 
-    // Create embedding for the query
-    const queryEmbedding = await openAIService.createEmbedding(query);
+    // Embed the query, expanded with paraphrases or a hypothetical answer when asked to
+    const { embedding: queryEmbedding, expansions, expandedQueries } = await queryExpansionService.prepare(
+      query,
+      queryMode
+    );
 
-    // Query with product prioritization
-    const results = await pineconeService.queryWithProductPriority(
+    // Query with product prioritization (or the requested ranking policy), fusing vector and keyword matches
+    const results = await retrievalService.queryWithProductPriority(
       queryEmbedding,
       topK,
-      prioritizeProducts
+      prioritizeProducts,
+      { query, lexicalWeight, rerank: rerankOption.rerank, rankingPolicy, diversity, collapse, expansions }
     );
 
     // Format results for response
@@ -34,16 +95,27 @@ export async function POST(request: NextRequest) {
       return {
         id: match.id,
         score: match.score,
+        retrievers: match.retrievers,
+        vectorScore: match.vectorScore,
+        lexicalScore: match.lexicalScore,
+        originalScore: match.originalScore,
+        rerankScore: match.rerankScore,
+        collapsed: match.collapsed,
         isProduct,
-        content: match.metadata?.content || '',
+        content: match.content,
+        citation: describeSource(match.metadata),
         // Include product-specific fields if it's a product
         ...(isProduct && {
           product: {
             title: match.metadata?.productTitle,
             vendor: match.metadata?.vendor,
             price: match.metadata?.price,
+            priceMin: match.metadata?.priceMin,
+            priceMax: match.metadata?.priceMax,
             sku: match.metadata?.sku,
             inStock: match.metadata?.inStock,
+            variantCount: match.metadata?.variantCount,
+            inStockVariants: match.metadata?.inStockVariants,
             type: match.metadata?.type,
             tags: match.metadata?.tags,
           }
@@ -66,7 +138,11 @@ export async function POST(request: NextRequest) {
         const product = result.product!;
         naturalLanguageResponse += `${index + 1}. **${product.title}**\n`;
         if (product.vendor) naturalLanguageResponse += `   Brand: ${product.vendor}\n`;
-        if (product.price) naturalLanguageResponse += `   Price: $${product.price}\n`;
+        if (product.priceMin !== undefined && product.priceMax !== undefined && product.priceMin !== product.priceMax) {
+          naturalLanguageResponse += `   Price: $${product.priceMin} - $${product.priceMax}\n`;
+        } else if (product.price !== undefined) {
+          naturalLanguageResponse += `   Price: $${product.price}\n`;
+        }
         if (product.inStock !== undefined) {
           naturalLanguageResponse += `   Availability: ${product.inStock ? 'In Stock' : 'Out of Stock'}\n`;
         }
@@ -77,7 +153,9 @@ export async function POST(request: NextRequest) {
     if (otherResults.length > 0) {
       naturalLanguageResponse += '\nAdditional relevant information:\n\n';
       otherResults.forEach((result, index) => {
-        naturalLanguageResponse += `${index + 1}. ${result.content.substring(0, 300)}...\n\n`;
+        naturalLanguageResponse += `${index + 1}. ${result.content.substring(0, 300)}...\n`;
+        if (result.citation) naturalLanguageResponse += `   Source: ${result.citation}\n`;
+        naturalLanguageResponse += '\n';
       });
     }
 
@@ -87,6 +165,7 @@ export async function POST(request: NextRequest) {
       totalResults: formattedResults.length,
       productResults: productResults.length,
       generalResults: otherResults.length,
+      ...(queryMode !== 'standard' && { expandedQueries }),
       naturalLanguageResponse,
       results: formattedResults,
     });
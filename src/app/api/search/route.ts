@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+import { combineFilters, parseSearchFilter } from '@/lib/search-filter';
+import { parseRerankOption } from '@/lib/rerank-options';
+import { validateRankingPolicyName } from '@/lib/ranking-policy';
+import { validateCollapseMode, validateDiversity } from '@/lib/diversification';
+import { getSearchService } from '@/services/search.service';
+import { validateQueryMode } from '@/services/query-expansion.service';
+
+export const runtime = 'nodejs';
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === 'string');
+
+// Similarity search with metadata filters, e.g.
+// { "query": "rain jacket", "filter": { "price": { "lte": 100 } }, "sources": ["shopify"], "page": 2 }
+// Add "diversity": 0.5 to spread results out, "collapse": "document" for one hit per document
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      query,
+      filter,
+      sources,
+      formats,
+      page = 1,
+      pageSize = config.search.defaultPageSize,
+      includeContent = false,
+      lexicalWeight,
+      rerank,
+      rankingPolicy,
+      diversity,
+      collapse,
+      queryMode,
+    } = await request.json();
+
+    const errors: string[] = [];
+    if (typeof query !== 'string' || !query.trim()) {
+      errors.push('query is required');
+    }
+    if (sources !== undefined && !isStringList(sources)) {
+      errors.push('sources must be a non-empty array of strings');
+    }
+    if (formats !== undefined && !isStringList(formats)) {
+      errors.push('formats must be a non-empty array of strings');
+    }
+    if (!Number.isInteger(page) || page < 1) {
+      errors.push('page must be a positive integer');
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > config.search.maxPageSize) {
+      errors.push(`pageSize must be an integer between 1 and ${config.search.maxPageSize}`);
+    }
+    if (Number.isInteger(page) && Number.isInteger(pageSize) && page * pageSize > config.search.maxResults) {
+      errors.push(`Only the first ${config.search.maxResults} results can be paged through`);
+    }
+    if (typeof includeContent !== 'boolean') {
+      errors.push('includeContent must be a boolean');
+    }
+    if (lexicalWeight !== undefined && (typeof lexicalWeight !== 'number' || lexicalWeight < 0 || lexicalWeight > 1)) {
+      errors.push('lexicalWeight must be a number between 0 and 1');
+    }
+
+    const rerankOption = parseRerankOption(rerank);
+    if (rerankOption.error) {
+      errors.push(rerankOption.error);
+    }
+
+    const policyError = validateRankingPolicyName(rankingPolicy);
+    if (policyError) {
+      errors.push(policyError);
+    }
+
+    const diversityError = validateDiversity(diversity);
+    if (diversityError) {
+      errors.push(diversityError);
+    }
+    const collapseError = validateCollapseMode(collapse);
+    if (collapseError) {
+      errors.push(collapseError);
+    }
+
+    const queryModeError = validateQueryMode(queryMode);
+    if (queryModeError) {
+      errors.push(queryModeError);
+    }
+
+    const parsed = parseSearchFilter(filter);
+    errors.push(...parsed.errors);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid search request', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const vectorFilter = combineFilters([
+      parsed.filter,
+      sources && { source: { $in: sources } },
+      formats && { originalFormat: { $in: formats.map((format: string) => format.toLowerCase().replace(/^\./, '')) } },
+    ]);
+
+    const results = await getSearchService().search(query.trim(), {
+      filter: vectorFilter,
+      page,
+      pageSize,
+      includeContent,
+      lexicalWeight,
+      rerank: rerankOption.rerank,
+      rankingPolicy,
+      diversity,
+      collapse,
+      queryMode,
+    });
+
+    return NextResponse.json({
+      success: true,
+      query: query.trim(),
+      ...results,
+    });
+  } catch (error) {
+    console.error('Error searching:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to search',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDocumentProcessingService } from '@/services/document-processing.service';
+import { getMediaProcessingService } from '@/services/media-processing.service';
+import { getIngestionJobService } from '@/services/ingestion-job.service';
 import { FileUploadResponse } from '@/types';
 import { config } from '@/lib/config';
+import { validateUpload } from '@/lib/upload-validation';
 
 export const runtime = 'nodejs';
-export const maxDuration = 60; // Maximum allowed for Vercel Hobby plan
+export const maxDuration = 60; // Maximum allowed for Vercel Hobby plan; processing happens in the ingestion worker
 //periodt
 export async function POST(request: NextRequest) {
   // Debug environment variables
@@ -29,70 +31,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate file type
-    const extension = file.name.split('.').pop()?.toLowerCase();
-    const allowedExtensions = [
-      ...config.upload.allowedTextFormats,
-      ...config.upload.allowedAudioFormats,
-      ...config.upload.allowedVideoFormats,
-    ];
-
-    if (!extension || !allowedExtensions.includes(extension)) {
+    const validationError = validateUpload(file.name, file.size);
+    if (validationError) {
       return NextResponse.json<FileUploadResponse>(
         {
           success: false,
-          message: `File type '${extension}' is not supported. Allowed types: ${allowedExtensions.join(
-            ', '
-          )}`,
+          message: validationError,
         },
         { status: 400 }
       );
     }
 
-    // Determine file type and size limit
-    let maxSize = config.upload.maxFileSize;
-    let fileType = 'text';
-    
-    if (config.upload.allowedVideoFormats.includes(extension)) {
-      maxSize = config.upload.maxVideoFileSize;
-      fileType = 'video';
-    } else if (config.upload.allowedAudioFormats.includes(extension)) {
-      maxSize = config.upload.maxAudioFileSize;
-      fileType = 'audio';
-    }
-
-    // Validate file size based on type
-    if (file.size > maxSize) {
-      return NextResponse.json<FileUploadResponse>(
-        {
-          success: false,
-          message: `${fileType.charAt(0).toUpperCase() + fileType.slice(1)} file size exceeds maximum allowed size of ${
-            maxSize / 1024 / 1024
-          }MB`,
-        },
-        { status: 400 }
-      );
-    }
-
-    // Convert file to buffer
-    const buffer = Buffer.from(await file.arrayBuffer());
-
-    // Process the file
-    const documentProcessingService = getDocumentProcessingService();
-    
-    // Initialize Pinecone if needed
-    await documentProcessingService.initializePinecone();
-    
-    const document = await documentProcessingService.processFile(
-      buffer,
+    // Persist the upload and hand it to the ingestion worker
+    const filePath = await getMediaProcessingService().saveUploadedStream(
+      file.stream(),
       file.name
     );
+    const job = await getIngestionJobService().create(filePath, file.name);
 
-    return NextResponse.json<FileUploadResponse>({
-      success: true,
-      message: 'File uploaded and processed successfully',
-      documentId: document.id,
-    });
+    return NextResponse.json<FileUploadResponse>(
+      {
+        success: true,
+        message: 'File uploaded and queued for processing',
+        jobId: job.id,
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Error processing file upload:', error);
     
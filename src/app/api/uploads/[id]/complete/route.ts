@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getResumableUploadService } from '@/services/resumable-upload.service';
+import { getIngestionJobService } from '@/services/ingestion-job.service';
+import { FileUploadResponse } from '@/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Assemble and verify the parts, then queue the file for ingestion
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const { checksum } = await request.json();
+    if (typeof checksum !== 'string' || !checksum) {
+      return NextResponse.json<FileUploadResponse>(
+        { success: false, message: 'checksum is required' },
+        { status: 400 }
+      );
+    }
+
+    const { filePath, filename } = await getResumableUploadService().complete(id, checksum);
+    const job = await getIngestionJobService().create(filePath, filename);
+
+    return NextResponse.json<FileUploadResponse>(
+      {
+        success: true,
+        message: 'File uploaded and queued for processing',
+        jobId: job.id,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error completing upload ${id}:`, error);
+
+    return NextResponse.json<FileUploadResponse>(
+      {
+        success: false,
+        message: 'Failed to complete upload',
+        error: message,
+      },
+      { status: message.includes('not found') ? 404 : 400 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getResumableUploadService } from '@/services/resumable-upload.service';
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ id: string; index: string }>;
+}
+
+// Upload one part as the raw request body, with its sha256 in the X-Part-Checksum header
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id, index } = await params;
+  const checksum = request.headers.get('x-part-checksum');
+
+  if (!checksum) {
+    return NextResponse.json(
+      { success: false, message: 'X-Part-Checksum header is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body = Buffer.from(await request.arrayBuffer());
+    const upload = await getResumableUploadService().writePart(id, Number(index), body, checksum);
+
+    return NextResponse.json({
+      success: true,
+      receivedParts: Object.keys(upload.parts).length,
+      totalParts: upload.totalParts,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error storing part ${index} of upload ${id}:`, error);
+
+    return NextResponse.json(
+      { success: false, message },
+      { status: message.includes('not found') ? 404 : 400 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getResumableUploadService } from '@/services/resumable-upload.service';
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Which parts the server already has, so a client can resume
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const uploadService = getResumableUploadService();
+  const upload = await uploadService.get(id);
+
+  if (!upload) {
+    return NextResponse.json(
+      { success: false, message: `Upload '${id}' not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    uploadId: upload.id,
+    filename: upload.filename,
+    size: upload.size,
+    partSize: upload.partSize,
+    totalParts: upload.totalParts,
+    receivedParts: Object.keys(upload.parts).map(Number).sort((a, b) => a - b),
+    missingParts: uploadService.missingParts(upload),
+  });
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    await getResumableUploadService().discard(id);
+
+    return NextResponse.json({
+      success: true,
+      message: `Upload '${id}' discarded`,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error discarding upload ${id}:`, error);
+
+    return NextResponse.json(
+      { success: false, message },
+      { status: message.includes('not found') ? 404 : 500 }
+    );
+  }
+}
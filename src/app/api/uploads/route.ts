@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getResumableUploadService } from '@/services/resumable-upload.service';
+import { validateUpload } from '@/lib/upload-validation';
+
+export const runtime = 'nodejs';
+
+// Start a resumable upload: { filename, size } -> { uploadId, partSize, totalParts }
+export async function POST(request: NextRequest) {
+  try {
+    const { filename, size } = await request.json();
+
+    if (typeof filename !== 'string' || !filename || typeof size !== 'number' || size <= 0) {
+      return NextResponse.json(
+        { success: false, message: 'filename and a positive size are required' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateUpload(filename, size);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, message: validationError },
+        { status: 400 }
+      );
+    }
+
+    const upload = await getResumableUploadService().create(filename, size);
+
+    return NextResponse.json({
+      success: true,
+      uploadId: upload.id,
+      partSize: upload.partSize,
+      totalParts: upload.totalParts,
+    });
+  } catch (error) {
+    console.error('Error starting resumable upload:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Failed to start upload',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@
 
 import React, { useState, useCallback, useRef } from 'react';
 import { FileUploadResponse, UploadProgress } from '@/types';
+import { waitForJob } from '@/lib/job-client';
+import { postFile } from '@/lib/upload-client';
 
 interface FileUploaderProps {
   onUploadSuccess?: (documentId: string) => void;
@@ -59,24 +61,25 @@ const FileUploader: React.FC<FileUploaderProps> = ({
       message: 'Uploading file...',
     });
 
-    const formData = new FormData();
-    formData.append('file', selectedFile);
-
     try {
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
+      const result: FileUploadResponse = await postFile('/api/upload', selectedFile, (percent) => {
+        setUploadProgress({
+          stage: 'uploading',
+          progress: percent,
+          message: `Uploading file... ${percent}%`,
+        });
       });
 
-      const result: FileUploadResponse = await response.json();
+      if (result.success && result.jobId) {
+        // The file is processed in the background; stream its progress until it finishes
+        const job = await waitForJob(result.jobId, setUploadProgress);
 
-      if (result.success && result.documentId) {
         setUploadProgress({
           stage: 'complete',
           progress: 100,
           message: 'Upload complete!',
         });
-        onUploadSuccess?.(result.documentId);
+        job.documentIds.forEach((documentId) => onUploadSuccess?.(documentId));
         
         // Reset after 2 seconds
         setTimeout(() => {
@@ -212,6 +215,9 @@ const FileUploader: React.FC<FileUploaderProps> = ({
 
             <div>
               <h3 className="text-lg font-semibold">{uploadProgress.message}</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 capitalize">
+                {uploadProgress.stage} • {Math.round(uploadProgress.progress)}%
+              </p>
               <div className="mt-4 w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
                 <div
                   className="bg-blue-500 h-2 rounded-full transition-all duration-300"
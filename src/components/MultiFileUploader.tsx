@@ -3,6 +3,8 @@
 import React, { useState, useCallback, useRef } from 'react';
 import { FileUploadResponse, FileUploadItem, BatchUploadStats } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
+import { waitForJob } from '@/lib/job-client';
+import { postFile, uploadResumable, RESUMABLE_UPLOAD_THRESHOLD } from '@/lib/upload-client';
 
 interface MultiFileUploaderProps {
   onBatchComplete?: (stats: BatchUploadStats) => void;
@@ -60,41 +62,52 @@ const MultiFileUploader: React.FC<MultiFileUploaderProps> = ({
     setFileItems((prev) => prev.filter((item) => item.id !== id));
   };
 
-  const uploadFile = async (item: FileUploadItem): Promise<void> => {
-    // Update status to uploading
+  const updateFileItem = (id: string, changes: Partial<FileUploadItem>) => {
     setFileItems((prev) =>
-      prev.map((f) =>
-        f.id === item.id
-          ? { ...f, status: 'uploading', progress: 20, message: 'Uploading...' }
-          : f
-      )
+      prev.map((f) => (f.id === id ? { ...f, ...changes } : f))
     );
+  };
 
-    const formData = new FormData();
-    formData.append('file', item.file);
+  const uploadFile = async (item: FileUploadItem): Promise<void> => {
+    // Update status to uploading
+    updateFileItem(item.id, {
+      status: 'uploading',
+      stage: 'uploading',
+      progress: 0,
+      message: 'Uploading...',
+    });
 
     try {
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-      });
-
-      const result: FileUploadResponse = await response.json();
-
-      if (result.success && result.documentId) {
-        setFileItems((prev) =>
-          prev.map((f) =>
-            f.id === item.id
-              ? {
-                  ...f,
-                  status: 'complete',
-                  progress: 100,
-                  message: 'Upload complete!',
-                  documentId: result.documentId,
-                }
-              : f
-          )
-        );
+      const onUploadProgress = (percent: number) => {
+        updateFileItem(item.id, {
+          progress: percent,
+          message: `Uploading... ${percent}%`,
+        });
+      };
+
+      // Large media goes up in resumable parts so a dropped connection doesn't restart it
+      const result: FileUploadResponse = item.file.size >= RESUMABLE_UPLOAD_THRESHOLD
+        ? await uploadResumable(item.file, onUploadProgress)
+        : await postFile('/api/upload', item.file, onUploadProgress);
+
+      if (result.success && result.jobId) {
+        // The file is processed in the background; stream its progress until it finishes
+        const job = await waitForJob(result.jobId, (update) => {
+          updateFileItem(item.id, {
+            status: 'processing',
+            stage: update.stage,
+            progress: update.progress,
+            message: update.message,
+          });
+        });
+
+        updateFileItem(item.id, {
+          status: 'complete',
+          stage: 'complete',
+          progress: 100,
+          message: 'Upload complete!',
+          documentId: job.documentIds[0],
+        });
       } else {
         throw new Error(result.error || result.message);
       }
@@ -102,19 +115,12 @@ const MultiFileUploader: React.FC<MultiFileUploaderProps> = ({
       const errorMessage =
         error instanceof Error ? error.message : 'Upload failed';
       
-      setFileItems((prev) =>
-        prev.map((f) =>
-          f.id === item.id
-            ? {
-                ...f,
-                status: 'error',
-                progress: 0,
-                message: errorMessage,
-                error: errorMessage,
-              }
-            : f
-        )
-      );
+      updateFileItem(item.id, {
+        status: 'error',
+        progress: 0,
+        message: errorMessage,
+        error: errorMessage,
+      });
     } finally {
       uploadQueueRef.current.delete(item.id);
     }
@@ -294,6 +300,14 @@ const MultiFileUploader: React.FC<MultiFileUploaderProps> = ({
                     <p className="text-xs text-gray-500 dark:text-gray-400">
                       {formatFileSize(item.file.size)} • {item.message}
                     </p>
+                    {(item.status === 'uploading' || item.status === 'processing') && (
+                      <div className="mt-1 w-full bg-gray-200 dark:bg-gray-600 rounded-full h-1">
+                        <div
+                          className="bg-blue-500 h-1 rounded-full transition-all duration-300"
+                          style={{ width: `${item.progress}%` }}
+                        ></div>
+                      </div>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-2 ml-4">
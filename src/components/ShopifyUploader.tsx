@@ -1,6 +1,8 @@
 'use client';
 
 import React, { useState } from 'react';
+import { waitForJob } from '@/lib/job-client';
+import { postFile } from '@/lib/upload-client';
 
 export function ShopifyUploader({ onUploadComplete }: { onUploadComplete?: (docId: string) => void }) {
   const [isUploading, setIsUploading] = useState(false);
@@ -24,26 +26,24 @@ export function ShopifyUploader({ onUploadComplete }: { onUploadComplete?: (docI
     setIsUploading(true);
     setUploadStatus('Uploading Shopify products...');
 
-    const formData = new FormData();
     // Rename the file to include 'shopify' if it doesn't already
     const fileName = file.name.toLowerCase().includes('shopify') 
       ? file.name 
       : `shopify_${file.name}`;
     
     const renamedFile = new File([file], fileName, { type: file.type });
-    formData.append('file', renamedFile);
 
     try {
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
+      const result = await postFile('/api/upload', renamedFile, (percent) => {
+        setUploadStatus(`Uploading Shopify products... ${percent}%`);
       });
 
-      const result = await response.json();
-
-      if (result.success) {
-        setUploadStatus('✅ Shopify products uploaded successfully!');
-        onUploadComplete?.(result.documentId);
+      if (result.success && result.jobId) {
+        const job = await waitForJob(result.jobId, (update) => {
+          setUploadStatus(`${update.message} (${Math.round(update.progress)}%)`);
+        });
+        setUploadStatus(`✅ ${job.message}`);
+        job.documentIds.forEach((documentId) => onUploadComplete?.(documentId));
       } else {
         setUploadStatus(`❌ Upload failed: ${result.message}`);
       }
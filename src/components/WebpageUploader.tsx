@@ -1,6 +1,8 @@
 'use client';
 
 import React, { useState } from 'react';
+import { waitForJob } from '@/lib/job-client';
+import { postFile } from '@/lib/upload-client';
 
 export function WebpageUploader({ onUploadComplete }: { onUploadComplete?: (docId: string) => void }) {
   const [isUploading, setIsUploading] = useState(false);
@@ -23,22 +25,20 @@ export function WebpageUploader({ onUploadComplete }: { onUploadComplete?: (docI
     }
 
     setIsUploading(true);
-    setUploadStatus(`Uploading ${file.name.endsWith('.csv') ? 'CSV' : 'JSON'} file...`);
-
-    const formData = new FormData();
-    formData.append('file', file);
+    const kind = file.name.endsWith('.csv') ? 'CSV' : 'JSON';
+    setUploadStatus(`Uploading ${kind} file...`);
 
     try {
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
+      const result = await postFile('/api/upload', file, (percent) => {
+        setUploadStatus(`Uploading ${kind} file... ${percent}%`);
       });
 
-      const result = await response.json();
-
-      if (result.success) {
-        setUploadStatus('✅ Webpage data uploaded successfully!');
-        onUploadComplete?.(result.documentId);
+      if (result.success && result.jobId) {
+        const job = await waitForJob(result.jobId, (update) => {
+          setUploadStatus(`${update.message} (${Math.round(update.progress)}%)`);
+        });
+        setUploadStatus(`✅ ${job.message}`);
+        job.documentIds.forEach((documentId) => onUploadComplete?.(documentId));
       } else {
         setUploadStatus(`❌ Upload failed: ${result.message}`);
       }
@@ -0,0 +1,7 @@
+import { config } from '@/lib/config';
+import { getIngestionWorker } from '@/services/ingestion-worker.service';
+
+export async function startEmbeddedWorker(): Promise<void> {
+  if (config.jobs.worker !== 'embedded') return;
+  await getIngestionWorker().start();
+}
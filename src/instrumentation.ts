@@ -0,0 +1,8 @@
+export async function register() {
+  // The ingestion worker needs Node APIs. Keep the import inside this check so
+  // it is compiled out of the edge runtime bundle.
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startEmbeddedWorker } = await import('./instrumentation-node');
+    await startEmbeddedWorker();
+  }
+}
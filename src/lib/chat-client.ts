@@ -0,0 +1,72 @@
+import { ChatMessage, Citation } from '@/types';
+
+export interface ChatTurnRequest {
+  message?: string;
+  messages?: ChatMessage[];
+  sessionId?: string;
+  persist?: boolean;
+  topK?: number;
+  prioritizeProducts?: boolean;
+}
+
+export interface ChatTurnResult {
+  sessionId?: string;
+  query: string;
+  answer: string;
+  answered: boolean;
+  citations: Citation[];
+}
+
+// Send a chat turn and read the streamed answer; EventSource can't POST, so parse the SSE stream by hand
+export async function streamChat(
+  request: ChatTurnRequest,
+  onToken?: (token: string) => void,
+  signal?: AbortSignal
+): Promise<ChatTurnResult> {
+  const response = await fetch('/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || `Chat request failed with status ${response.status}`);
+  }
+
+  const result: ChatTurnResult = { query: '', answer: '', answered: false, citations: [] };
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffered += value;
+    const events = buffered.split('\n\n');
+    buffered = events.pop() || '';
+
+    for (const raw of events) {
+      const event = /^event: (.*)$/m.exec(raw)?.[1];
+      const data = /^data: (.*)$/m.exec(raw)?.[1];
+      if (!event || !data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === 'session') {
+        result.sessionId = payload.sessionId;
+        result.query = payload.query;
+      } else if (event === 'token') {
+        result.answer += payload.content;
+        onToken?.(payload.content);
+      } else if (event === 'citations') {
+        result.answered = payload.answered;
+        result.citations = payload.citations;
+      } else if (event === 'failed') {
+        throw new Error(payload.message);
+      }
+    }
+  }
+
+  return result;
+}
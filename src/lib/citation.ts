@@ -0,0 +1,12 @@
+// Describe where a chunk came from, e.g. "page 12 of handbook.pdf" or "pages 3-4 of handbook.pdf"
+export function describeSource(metadata?: Record<string, unknown>): string | undefined {
+  const filename = typeof metadata?.filename === 'string' ? metadata.filename : undefined;
+  if (!filename) return undefined;
+
+  const { pageStart, pageEnd } = metadata as { pageStart?: number; pageEnd?: number };
+  if (typeof pageStart !== 'number') return filename;
+
+  return pageEnd && pageEnd !== pageStart
+    ? `pages ${pageStart}-${pageEnd} of ${filename}`
+    : `page ${pageStart} of ${filename}`;
+}
@@ -1,13 +1,209 @@
+import path from 'path';
+import type {
+  ChunkingOptions,
+  ChunkingStrategyName,
+  QueryMode,
+  RankingPolicyDefinition,
+  RerankerName,
+  ShopifyFieldMapping,
+  ShopifyStoreDefaults,
+} from '@/types';
+
+// Merge CHUNKING_OVERRIDES into the built-in per-source chunking options
+function withChunkingOverrides(
+  overrides: Record<string, Partial<ChunkingOptions>>
+): Record<string, Partial<ChunkingOptions>> {
+  const fromEnv: Record<string, Partial<ChunkingOptions>> = JSON.parse(
+    process.env.CHUNKING_OVERRIDES || '{}'
+  );
+  for (const [key, options] of Object.entries(fromEnv)) {
+    overrides[key] = { ...overrides[key], ...options };
+  }
+  return overrides;
+}
+
+// Add RANKING_POLICIES to the built-in ranking policies; a policy with a built-in name replaces it
+function withRankingPolicies(
+  policies: Record<string, RankingPolicyDefinition>
+): Record<string, RankingPolicyDefinition> {
+  return { ...policies, ...JSON.parse(process.env.RANKING_POLICIES || '{}') };
+}
+
+// Add SHOPIFY_STORES to the built-in stores; unset values fall back to the 'default' store's, except its field mappings
+function withShopifyStores(
+  stores: Record<string, ShopifyStoreDefaults>
+): Record<string, ShopifyStoreDefaults> {
+  const fromEnv: Record<string, Partial<ShopifyStoreDefaults>> = JSON.parse(process.env.SHOPIFY_STORES || '{}');
+  for (const [name, defaults] of Object.entries(fromEnv)) {
+    stores[name] = { ...stores.default, ...stores[name], ...defaults, fields: defaults.fields || stores[name]?.fields || [] };
+  }
+  return stores;
+}
+
+// SHOPIFY_FIELDS mappings are checked before the built-in ones
+function withShopifyFields(fields: ShopifyFieldMapping[]): ShopifyFieldMapping[] {
+  return [...JSON.parse(process.env.SHOPIFY_FIELDS || '[]'), ...fields];
+}
+
 export const config = {
+  vectorStore: {
+    provider: (process.env.VECTOR_STORE_PROVIDER || 'pinecone') as 'pinecone' | 'local',
+    localPath: process.env.LOCAL_VECTOR_STORE_PATH || '', // defaults to DATA_DIR/vectors.json
+  },
+  chunkStore: {
+    path: process.env.CHUNK_STORE_PATH || '', // defaults to DATA_DIR/chunks.json
+  },
+  lexicalIndex: {
+    path: process.env.LEXICAL_INDEX_PATH || '', // defaults to DATA_DIR/lexical-index.json
+  },
+  retrieval: {
+    // Share of the fused ranking given to BM25 keyword matches: 0 = vector only, 1 = keywords only
+    lexicalWeight: parseFloat(process.env.LEXICAL_WEIGHT || '0.3'),
+    rrfK: 60, // reciprocal-rank fusion constant; higher values flatten the rank weighting
+    candidates: 50, // results fetched from each retriever before fusion
+    maxTopK: 50, // most results a query route returns in one request (`/api/search` pages instead)
+    diversityPool: 3, // diversified or collapsed queries choose from topK * this many candidates
+  },
+  queryExpansion: {
+    // Retrieval mode for requests that don't choose one; 'standard' embeds the query as is
+    defaultMode: (process.env.QUERY_MODE || 'standard') as QueryMode,
+    paraphrases: parseInt(process.env.QUERY_PARAPHRASES || '3'), // extra queries generated in multi-query mode
+    maxHypotheticalTokens: 200, // length of the passage generated in HyDE mode
+  },
+  rerank: {
+    // Reranker used when a request doesn't choose one; 'none' leaves results in retrieval order
+    provider: (process.env.RERANKER || 'none') as RerankerName | 'none',
+    candidates: parseInt(process.env.RERANK_CANDIDATES || '20'), // top results rescored per query
+    maxCandidates: 100,
+    maxPassageChars: 2000, // text per candidate sent to the LLM or rerank API
+    http: {
+      // Cohere/Jina-style `{ query, documents }` or TEI-style `{ query, texts }` rerank endpoint
+      url: process.env.RERANK_API_URL || '',
+      apiKey: process.env.RERANK_API_KEY || '',
+      model: process.env.RERANK_MODEL || '',
+    },
+  },
+  ranking: {
+    // Policy for product-prioritized queries that don't name one; unprioritized queries use 'similarity'
+    defaultPolicy: process.env.RANKING_POLICY || 'products-first',
+    policies: withRankingPolicies({
+      similarity: {
+        description: 'Retrieval order, no quotas or boosts',
+      },
+      'products-first': {
+        description: '60% of results from Shopify products, ties broken by product priority',
+        quotas: [
+          { name: 'products', when: { source: 'shopify' }, share: 0.6 },
+          { name: 'content', when: { source: { ne: 'shopify' } }, share: 0.4 },
+        ],
+        boosts: [{ type: 'field', field: 'priorityScore', weight: 0.001 }],
+      },
+      'in-stock-first': {
+        description: 'Products first, in-stock products ahead of out-of-stock ones',
+        quotas: [
+          { name: 'products', when: { source: 'shopify' }, share: 0.6 },
+          { name: 'content', when: { source: { ne: 'shopify' } }, share: 0.4 },
+        ],
+        boosts: [
+          { type: 'match', when: { inStock: true }, weight: 1 },
+          { type: 'field', field: 'priorityScore', weight: 0.001 },
+        ],
+      },
+      'fresh-content': {
+        description: 'Recently uploaded pages and documents rank higher',
+        boosts: [{ type: 'recency', weight: 0.1, halfLifeDays: 30, when: { source: { ne: 'shopify' } } }],
+      },
+    }),
+  },
+  shopify: {
+    // Fallbacks for values a Shopify export leaves out. An import uses the store whose name appears
+    // in its filename (e.g. "acme-shopify-products.csv"), otherwise 'default'. Add stores with
+    // SHOPIFY_STORES='{"acme":{"vendor":"Acme","inStockWhenUnknown":false}}'
+    stores: withShopifyStores({
+      default: {
+        vendor: process.env.SHOPIFY_DEFAULT_VENDOR ?? 'Lotus Wei',
+        skuFromHandle: true,
+        inStockWhenUnknown: true,
+        fields: [
+          { column: 'Metafield: custom.summary_blurb [*]', target: 'text', label: 'Summary' },
+          { column: 'Metafield: custom.essences_inside_names [*]', target: 'text', label: 'Essences' },
+          { column: 'Metafield: custom.essences_inside_descriptors [*]', target: 'text', label: 'Essence Descriptions' },
+        ],
+      },
+    }),
+    // What happens to the columns (other than product, variant and image columns) and metafields of
+    // an export; the first mapping matching a column applies, and unmatched columns are ignored.
+    // Add mappings with SHOPIFY_FIELDS='[{"column":"Metafield: custom.vegan [boolean]","target":"both"}]'
+    fields: withShopifyFields([
+      { column: 'Metafield: title_tag [*]', target: 'text', label: 'SEO Title' },
+      { column: 'Metafield: description_tag [*]', target: 'text', label: 'SEO Description' },
+      { column: 'Metafield: judgeme.* [*]', target: 'none' }, // review widget markup
+      { column: 'Metafield: * [*_reference]', target: 'none' }, // media and resource IDs
+      { column: 'Metafield: *', target: 'text' },
+      { column: 'Custom Collections', target: 'text' },
+      { column: 'Smart Collections', target: 'text' },
+    ]),
+  },
   pinecone: {
     apiKey: process.env.PINECONE_API_KEY || '',
     indexName: process.env.PINECONE_INDEX_NAME || '',
-    vectorDimension: 1024,
+  },
+  embedding: {
+    provider: (process.env.EMBEDDING_PROVIDER || 'openai') as 'openai' | 'openai-compatible' | 'hash',
+    model: process.env.EMBEDDING_MODEL || '', // defaults to openai.embeddingModel for the openai provider
+    dimension: parseInt(process.env.EMBEDDING_DIMENSION || '1024'),
+    maxInputChars: parseInt(process.env.EMBEDDING_MAX_INPUT_CHARS || '8000'), // ~2,666 tokens, within the 8191 token limit
+    baseUrl: process.env.EMBEDDING_BASE_URL || 'http://localhost:11434/v1', // Ollama's OpenAI-compatible API
+    apiKey: process.env.EMBEDDING_API_KEY || '',
+    batchSize: parseInt(process.env.EMBEDDING_BATCH_SIZE || '100'), // texts per embeddings request
+    batchWindowMs: 20, // single-text calls arriving within this long are sent as one request
+    requestsPerMinute: parseInt(process.env.EMBEDDING_RPM || '0'), // 0 = no limit
+    tokensPerMinute: parseInt(process.env.EMBEDDING_TPM || '0'), // 0 = no limit
+  },
+  embeddingCache: {
+    // Reuse embeddings of text seen before (same provider, model and dimension) instead of calling the provider
+    enabled: process.env.EMBEDDING_CACHE !== 'false',
+    path: process.env.EMBEDDING_CACHE_PATH || '', // directory, defaults to DATA_DIR/embedding-cache
+    // Least recently used are evicted beyond this; at 1536 dimensions an entry takes 6KB on disk
+    maxEntries: parseInt(process.env.EMBEDDING_CACHE_MAX_ENTRIES || '20000'),
+    usageFlushMs: 60000, // cache hits are written to disk at most this often
+  },
+  providerRequests: {
+    // Rate-limited (429), timed-out, 5xx and dropped embedding and transcription requests are retried
+    maxRetries: parseInt(process.env.PROVIDER_MAX_RETRIES || '5'),
+    baseDelayMs: 1000, // doubled on every retry, with jitter; a Retry-After header takes precedence
+    maxDelayMs: 60000,
+  },
+  llm: {
+    provider: (process.env.LLM_PROVIDER || 'openai') as 'openai' | 'openai-compatible' | 'stub',
+    model: process.env.LLM_MODEL || '', // defaults to openai.chatModel for the openai provider
+    baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1', // Ollama's OpenAI-compatible API
+    apiKey: process.env.LLM_API_KEY || '',
+    temperature: 0.2,
+    maxTokens: parseInt(process.env.LLM_MAX_TOKENS || '800'),
+  },
+  answer: {
+    topK: 8,
+    minScore: parseFloat(process.env.ANSWER_MIN_SCORE || '0.25'), // matches below this similarity are not used as sources
+    // ...unless their keyword score reaches this; 1 is about every question term appearing once
+    minKeywordScore: parseFloat(process.env.ANSWER_MIN_KEYWORD_SCORE || '0.4'),
+    maxContextChars: 12000, // total source text sent to the model
+  },
+  search: {
+    defaultPageSize: 10,
+    maxPageSize: 100,
+    maxResults: 1000, // deepest result reachable through pagination (page * pageSize)
+  },
+  chat: {
+    historyMessages: 10, // most recent messages sent to the model with each turn
+    maxStoredMessages: 200, // older messages are dropped from persisted sessions
   },
   openai: {
     apiKey: process.env.OPENAI_API_KEY || '',
     embeddingModel: 'text-embedding-3-large',
+    chatModel: 'gpt-4o-mini',
     whisperModel: 'whisper-1',
+    transcriptionRequestsPerMinute: parseInt(process.env.TRANSCRIPTION_RPM || '0'), // 0 = no limit
   },
   upload: {
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '104857600'), // 100MB default
@@ -16,12 +212,38 @@ export const config = {
     allowedTextFormats: ['txt', 'md', 'pdf', 'doc', 'docx', 'csv', 'json'],
     allowedAudioFormats: ['mp3', 'wav', 'm4a', 'ogg', 'flac'],
     allowedVideoFormats: ['mp4', 'avi', 'mov', 'mkv', 'webm'],
+    resumablePartSize: parseInt(process.env.UPLOAD_PART_SIZE || '4194304'), // 4MB parts, under typical request body limits
+    resumableExpiryHours: 24, // incomplete resumable uploads are discarded after this long
+  },
+  jobs: {
+    // 'embedded' runs the ingestion worker inside the Next.js server, 'external' expects `npm run worker`
+    worker: (process.env.INGESTION_WORKER || 'embedded') as 'embedded' | 'external',
+    pollIntervalMs: 2000,
+    maxAttempts: 3, // jobs interrupted by a restart are retried up to this many times
+  },
+  chunking: {
+    // Used for every source without an override below
+    default: {
+      strategy: (process.env.CHUNKING_STRATEGY || 'token') as ChunkingStrategyName,
+      chunkSize: parseInt(process.env.CHUNK_SIZE || '2000'), // tokens for 'token', characters for other strategies
+      chunkOverlap: parseInt(process.env.CHUNK_OVERLAP || '50'),
+    },
+    // Keyed by file extension or document source ('audio', 'video', ...). Add or adjust with
+    // CHUNKING_OVERRIDES='{"txt":{"strategy":"recursive","chunkSize":4000,"chunkOverlap":200}}'
+    overrides: withChunkingOverrides({
+      md: { strategy: 'markdown', chunkSize: 6000, chunkOverlap: 200 },
+      docx: { strategy: 'markdown', chunkSize: 6000, chunkOverlap: 200 },
+      pdf: { strategy: 'markdown', chunkSize: 6000, chunkOverlap: 200 },
+      csv: { strategy: 'recursive', chunkSize: 6000, chunkOverlap: 0 },
+      json: { strategy: 'recursive', chunkSize: 6000, chunkOverlap: 0 },
+    }),
   },
   processing: {
-    chunkSize: 8000, // Reduced to ~2000 tokens (safe for 8192 token limit)
-    chunkOverlap: 200, // overlap between chunks
     videoSegmentMinutes: 10, // segment videos into 10-minute chunks
   },
 };
 
-export const UPLOAD_DIR = '/tmp/uploads'; 
\ No newline at end of file
+export const UPLOAD_DIR = '/tmp/uploads';
+
+// Persistent local state (local vector store, registries, caches)
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data'); 
\ No newline at end of file
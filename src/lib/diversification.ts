@@ -0,0 +1,146 @@
+import type { VectorMetadata } from '@/services/vector-store.service';
+import { tokenize } from '@/services/lexical-index.service';
+
+export type CollapseMode = 'document' | 'handle';
+
+export interface DiversifiableMatch {
+  id: string;
+  score: number;
+  values?: number[];
+  content?: string;
+  metadata?: VectorMetadata;
+}
+
+// A lower-ranked chunk folded into the hit for its document or product
+export interface CollapsedHit {
+  id: string;
+  score: number;
+  chunkIndex?: number;
+}
+
+// Documents are collapsed by id; 'handle' also merges everything about one product
+export function collapseKey(match: DiversifiableMatch, mode: CollapseMode): string {
+  const metadata = match.metadata || {};
+  if (mode === 'handle' && typeof metadata.productHandle === 'string') {
+    return `handle:${metadata.productHandle}`;
+  }
+  return `document:${(metadata.documentId as string) || match.id}`;
+}
+
+/**
+ * Keep the first (best ranked) hit per document or product handle; the
+ * other hits are listed under it in `collapsed`, in rank order.
+ */
+export function collapseMatches<T extends DiversifiableMatch>(
+  matches: T[],
+  mode: CollapseMode
+): Array<T & { collapsed?: CollapsedHit[] }> {
+  const groups = new Map<string, T & { collapsed?: CollapsedHit[] }>();
+
+  for (const match of matches) {
+    const key = collapseKey(match, mode);
+    const leader = groups.get(key);
+    if (!leader) {
+      groups.set(key, { ...match });
+      continue;
+    }
+
+    const chunkIndex = match.metadata?.chunkIndex;
+    (leader.collapsed ||= []).push({
+      id: match.id,
+      score: match.score,
+      ...(typeof chunkIndex === 'number' && { chunkIndex }),
+    });
+  }
+
+  return [...groups.values()];
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((term) => b.has(term) && shared++);
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Maximal marginal relevance: repeatedly pick the match that best balances
+ * relevance against similarity to what has already been picked.
+ * `diversity` 0 keeps the ranking, 1 only avoids redundancy.
+ *
+ * Relevance comes from each match's position in the input ranking, so the
+ * result doesn't depend on whether scores are cosine, fused or reranked.
+ * Similarity is the cosine of the embeddings when both matches carry them,
+ * otherwise the word overlap of their text.
+ */
+export function diversifyMatches<T extends DiversifiableMatch>(
+  matches: T[],
+  topK: number,
+  diversity: number
+): T[] {
+  if (diversity <= 0 || matches.length <= 1) return matches.slice(0, topK);
+
+  const terms = matches.map((match) => new Set(tokenize(match.content || '')));
+  const similarity = (a: number, b: number) => {
+    const [x, y] = [matches[a], matches[b]];
+    return x.values && y.values ? cosine(x.values, y.values) : jaccard(terms[a], terms[b]);
+  };
+  const relevance = (index: number) => 1 - index / matches.length;
+
+  const selected: number[] = [];
+  const remaining = new Set(matches.map((_, index) => index));
+  // Highest similarity of each remaining match to anything selected so far
+  const redundancy = new Array<number>(matches.length).fill(0);
+
+  while (selected.length < topK && remaining.size > 0) {
+    let best = -1;
+    let bestValue = -Infinity;
+    for (const index of remaining) {
+      const value = (1 - diversity) * relevance(index) - diversity * redundancy[index];
+      if (value > bestValue) {
+        best = index;
+        bestValue = value;
+      }
+    }
+
+    selected.push(best);
+    remaining.delete(best);
+    for (const index of remaining) {
+      redundancy[index] = Math.max(redundancy[index], similarity(index, best));
+    }
+  }
+
+  return selected.map((index) => matches[index]);
+}
+
+const COLLAPSE_MODES: CollapseMode[] = ['document', 'handle'];
+
+// Returns an error message if a request's diversity isn't a number between 0 and 1, otherwise null
+export function validateDiversity(value: unknown): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+    return 'diversity must be a number between 0 and 1';
+  }
+  return null;
+}
+
+// Returns an error message if a request's collapse isn't a known mode, otherwise null
+export function validateCollapseMode(value: unknown): string | null {
+  if (value === undefined) return null;
+  if (!COLLAPSE_MODES.includes(value as CollapseMode)) {
+    return `collapse must be one of: ${COLLAPSE_MODES.join(', ')}`;
+  }
+  return null;
+}
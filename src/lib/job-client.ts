@@ -0,0 +1,39 @@
+import { JobCompleteEvent, UploadProgress } from '@/types';
+
+// Collapse the detailed processing stages into the stages the uploader UI knows
+export function toUploadStage(stage: string): UploadProgress['stage'] {
+  if (stage === 'queued') return 'uploading';
+  if (stage === 'embedding' || stage === 'storing' || stage === 'complete') return stage;
+  return 'processing';
+}
+
+// Follow an ingestion job's progress stream until it completes; rejects if the job fails
+export function waitForJob(
+  jobId: string,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<JobCompleteEvent> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    source.addEventListener('progress', (event) => {
+      onProgress?.(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.addEventListener('complete', (event) => {
+      source.close();
+      resolve(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.addEventListener('failed', (event) => {
+      source.close();
+      reject(new Error(JSON.parse((event as MessageEvent).data).message));
+    });
+
+    // EventSource retries transient network errors by itself; give up once it stops
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error('Lost connection to the progress stream'));
+      }
+    };
+  });
+}
@@ -0,0 +1,48 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { JsonFileStore } from './json-file-store';
+import { temporaryDirectory } from '../testing/environment';
+
+const dataDir = temporaryDirectory('json-store');
+
+describe('json file store', () => {
+  test('drops the changes of an update that fails', async () => {
+    const filePath = path.join(dataDir, 'failed-update.json');
+    const store = new JsonFileStore<Record<string, number>>(filePath, () => ({}));
+    await store.update((data) => {
+      data.kept = 1;
+    });
+
+    await assert.rejects(
+      store.update((data) => {
+        data.partial = 2;
+        throw new Error('dimension mismatch');
+      }),
+      /dimension mismatch/
+    );
+    assert.deepEqual(await store.read(), { kept: 1 });
+
+    await store.update((data) => {
+      data.next = 3;
+    });
+    assert.deepEqual(JSON.parse(fs.readFileSync(filePath, 'utf-8')), { kept: 1, next: 3 });
+  });
+
+  test('keeps every update from concurrent writers', async () => {
+    const filePath = path.join(dataDir, 'concurrent.json');
+    const writers = [0, 1, 2].map(() => new JsonFileStore<Record<string, number>>(filePath, () => ({})));
+
+    await Promise.all(
+      Array.from({ length: 30 }, (_, index) =>
+        writers[index % writers.length].update((data) => {
+          data[`key-${index}`] = index;
+        })
+      )
+    );
+
+    assert.equal(Object.keys(await new JsonFileStore(filePath, () => ({})).read()).length, 30);
+    assert.equal(fs.existsSync(`${filePath}.lock`), false);
+  });
+});
@@ -0,0 +1,140 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+const LOCK_RETRY_MS = 20;
+// A lock older than this is left over from a process that died while holding it
+const LOCK_STALE_MS = 30000;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * A JSON document persisted to a single file.
+ *
+ * The value is loaded lazily and kept in memory until the file changes on
+ * disk (e.g. written by the ingestion worker in another process). Updates are
+ * serialized within the process and across processes by a lock file next to
+ * the data, re-read the file under the lock, and are written through a
+ * temporary file + rename so a crash never leaves a half-written file behind.
+ */
+export class JsonFileStore<T> {
+  private data: T | null = null;
+  private loadedMtimeMs: number | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly createDefault: () => T
+  ) {}
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  async read(): Promise<T> {
+    const mtimeMs = await this.getMtime();
+    if (this.data === null || mtimeMs !== this.loadedMtimeMs) {
+      this.data = await this.load();
+      this.loadedMtimeMs = mtimeMs;
+    }
+    return this.data;
+  }
+
+  async update<R>(mutator: (data: T) => R | Promise<R>): Promise<R> {
+    const run = this.queue.then(() =>
+      this.withLock(async () => {
+        // Read under the lock, so a write from another process since the last read is picked up
+        const data = await this.read();
+        try {
+          const result = await mutator(data);
+          await this.persist(data);
+          this.loadedMtimeMs = await this.getMtime();
+          return result;
+        } catch (error) {
+          // The mutator may have changed the cached value before failing; reload it from disk next time
+          this.data = null;
+          this.loadedMtimeMs = null;
+          throw error;
+        }
+      })
+    );
+
+    // Keep the queue alive even if this update fails
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private get lockPath(): string {
+    return `${this.filePath}.lock`;
+  }
+
+  private async withLock<R>(action: () => Promise<R>): Promise<R> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    for (;;) {
+      try {
+        const handle = await fs.open(this.lockPath, 'wx');
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        if (await this.lockIsStale()) {
+          await fs.rm(this.lockPath, { force: true });
+        } else {
+          await sleep(LOCK_RETRY_MS);
+        }
+      }
+    }
+
+    try {
+      return await action();
+    } finally {
+      await fs.rm(this.lockPath, { force: true });
+    }
+  }
+
+  // The holder exited without releasing the lock, or has held it far longer than any write takes
+  private async lockIsStale(): Promise<boolean> {
+    try {
+      const [stats, holder] = await Promise.all([fs.stat(this.lockPath), fs.readFile(this.lockPath, 'utf-8')]);
+      if (Date.now() - stats.mtimeMs > LOCK_STALE_MS) return true;
+
+      const pid = Number(holder);
+      if (!Number.isInteger(pid) || pid <= 0) return false; // still being written
+      process.kill(pid, 0);
+      return false;
+    } catch (error) {
+      // ESRCH: no such process; ENOENT: released in the meantime, so just try again
+      return (error as NodeJS.ErrnoException).code === 'ESRCH';
+    }
+  }
+
+  private async getMtime(): Promise<number | null> {
+    try {
+      const stats = await fs.stat(this.filePath);
+      return stats.mtimeMs;
+    } catch {
+      return null;
+    }
+  }
+
+  private async load(): Promise<T> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return this.createDefault();
+      }
+      console.error(`Error reading ${this.filePath}:`, error);
+      throw error;
+    }
+  }
+
+  private async persist(data: T): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { allocateQuotas, applyRankingPolicy, boostFor, compileRankingPolicy } from './ranking-policy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const product = (id: string, score: number, metadata = {}) => ({ id, score, metadata: { source: 'shopify', ...metadata } });
+const article = (id: string, score: number, metadata = {}) => ({ id, score, metadata: { source: 'upload', ...metadata } });
+
+const quotas = [
+  { name: 'products', when: { source: 'shopify' }, share: 0.6 },
+  { name: 'content', share: 0.4 },
+];
+const productsFirst = compileRankingPolicy('products-first', { quotas });
+
+const ids = (matches: Array<{ id: string }>) => matches.map((match) => match.id);
+
+describe('ranking policy', () => {
+  test('splits slots between quotas by largest remainder', () => {
+    assert.deepEqual(allocateQuotas([0.6, 0.4], 5), [3, 2]);
+    assert.deepEqual(allocateQuotas([1, 1, 1], 4), [2, 1, 1]);
+    assert.deepEqual(allocateQuotas([0.6, 0.4], 0), [0, 0]);
+  });
+
+  test('fills each quota with its best matches and orders the result by score', () => {
+    const matches = [
+      article('a1', 0.9),
+      article('a2', 0.85),
+      article('a3', 0.8),
+      article('a4', 0.75),
+      product('p1', 0.7),
+      product('p2', 0.6),
+      product('p3', 0.5),
+      product('p4', 0.4),
+    ];
+
+    assert.deepEqual(ids(applyRankingPolicy(matches, productsFirst, 5)), ['a1', 'a2', 'p1', 'p2', 'p3']);
+  });
+
+  test('gives the slots a quota cannot fill to the best remaining matches', () => {
+    const matches = [article('a1', 0.9), article('a2', 0.8), article('a3', 0.7), product('p1', 0.6), article('a4', 0.5)];
+
+    assert.deepEqual(ids(applyRankingPolicy(matches, productsFirst, 4)), ['a1', 'a2', 'a3', 'p1']);
+  });
+
+  test('adds match, field and recency boosts', () => {
+    const now = Date.parse('2024-06-30T00:00:00Z');
+    const policy = compileRankingPolicy('boosted', {
+      boosts: [
+        { type: 'match', when: { vendor: 'Acme' }, weight: 0.1 },
+        { type: 'field', field: 'priorityScore', weight: 0.2, scale: 10 },
+        { type: 'field', field: 'inStock', weight: 0.05 },
+        { type: 'recency', weight: 0.4, halfLifeDays: 7 },
+      ],
+    });
+
+    assert.equal(boostFor(policy, { vendor: 'Other' }, now), 0);
+    assert.equal(boostFor(policy, { vendor: 'Acme', priorityScore: 5, inStock: false }, now), 0.1 + 0.1);
+    assert.equal(boostFor(policy, { inStock: true }, now), 0.05);
+    assert.equal(boostFor(policy, { uploadedAtTs: now - 7 * DAY_MS }, now), 0.2);
+    assert.equal(boostFor(policy, { uploadedAt: new Date(now - 14 * DAY_MS).toISOString() }, now), 0.1);
+
+    const ranked = applyRankingPolicy([article('old', 0.8), article('acme', 0.75, { vendor: 'Acme' })], policy, 2, now);
+    assert.deepEqual(ids(ranked), ['acme', 'old']);
+  });
+
+  test('drops matches below minScore before boosts are added', () => {
+    const policy = compileRankingPolicy('strict', {
+      minScore: 0.5,
+      boosts: [{ type: 'match', when: { vendor: 'Acme' }, weight: 1 }],
+    });
+    const matches = [article('a1', 0.6), article('acme', 0.4, { vendor: 'Acme' }), article('a2', 0.5)];
+
+    assert.deepEqual(ids(applyRankingPolicy(matches, policy, 3)), ['a1', 'a2']);
+  });
+
+  test('picks the candidates to rerank on retrieval scores and keeps the quotas on reranked scores', () => {
+    const policy = compileRankingPolicy('reranked', {
+      quotas,
+      minScore: 0.3,
+      boosts: [{ type: 'match', when: { vendor: 'Acme' }, weight: 0.5 }],
+    });
+    const retrieved = [
+      article('a1', 0.9),
+      article('a2', 0.8),
+      article('a3', 0.7),
+      product('p1', 0.6),
+      product('p2', 0.5, { vendor: 'Acme' }),
+      product('p3', 0.4),
+      article('a4', 0.2),
+    ];
+
+    // The pool of 4 candidates follows the policy on retrieval scores: a4 is below minScore, p2 is boosted
+    const pool = applyRankingPolicy(retrieved, policy, 4);
+    assert.deepEqual(ids(pool), ['p2', 'a1', 'a2', 'p1']);
+
+    // Reranker scores have no minimum or boosts, but the top 3 still hold 2 products (60%)
+    const reranked = pool.map((match) => ({ ...match, score: { a1: 0.9, a2: 0.8, p1: 0.2, p2: 0.1 }[match.id]! }));
+    const top = applyRankingPolicy(reranked, { ...policy, boosts: [], minScore: undefined }, 3);
+    assert.deepEqual(ids(top), ['a1', 'p1', 'p2']);
+  });
+
+  test('rejects invalid definitions', () => {
+    assert.throws(() => compileRankingPolicy('bad', { quotas: [{ name: 'none', share: 0 }] }), /positive share/);
+    assert.throws(
+      () => compileRankingPolicy('bad', { boosts: [{ type: 'recency', weight: 1, halfLifeDays: 0 }] }),
+      /halfLifeDays/
+    );
+    assert.throws(
+      () => compileRankingPolicy('bad', { quotas: [{ name: 'odd', when: { colour: 'red' }, share: 1 }] }),
+      /Invalid condition/
+    );
+  });
+});
@@ -0,0 +1,182 @@
+import { config } from '@/lib/config';
+import { parseSearchFilter, UPLOADED_AT_FIELD } from '@/lib/search-filter';
+import { matchesFilter } from '@/lib/vector-filter';
+import type { VectorFilter, VectorMetadata } from '@/services/vector-store.service';
+import { RankingBoost, RankingCondition, RankingPolicyDefinition } from '@/types';
+
+// A policy with its conditions translated into vector store filters
+export interface RankingPolicy {
+  name: string;
+  quotas: Array<{ name: string; filter?: VectorFilter; share: number }>;
+  boosts: Array<RankingBoost & { filter?: VectorFilter }>;
+  minScore?: number;
+}
+
+export interface RankableMatch {
+  id: string;
+  score: number;
+  metadata?: VectorMetadata;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function compileCondition(policy: string, condition: RankingCondition | undefined): VectorFilter | undefined {
+  const { filter, errors } = parseSearchFilter(condition);
+  if (errors.length > 0) {
+    throw new Error(`Invalid condition in ranking policy '${policy}': ${errors.join('; ')}`);
+  }
+  return filter;
+}
+
+// Validate a policy definition and translate its conditions; throws on invalid definitions
+export function compileRankingPolicy(name: string, definition: RankingPolicyDefinition): RankingPolicy {
+  const quotas = (definition.quotas || []).map((quota) => {
+    if (!(quota.share > 0)) {
+      throw new Error(`Quota '${quota.name}' in ranking policy '${name}' must have a positive share`);
+    }
+    return { name: quota.name, share: quota.share, filter: compileCondition(name, quota.when) };
+  });
+
+  const boosts = (definition.boosts || []).map((boost) => {
+    if (typeof boost.weight !== 'number') {
+      throw new Error(`Every boost in ranking policy '${name}' needs a numeric weight`);
+    }
+    if (boost.type === 'recency' && !(boost.halfLifeDays > 0)) {
+      throw new Error(`Recency boost in ranking policy '${name}' needs a positive halfLifeDays`);
+    }
+    if (!['match', 'field', 'recency'].includes(boost.type)) {
+      throw new Error(`Unknown boost type '${(boost as RankingBoost).type}' in ranking policy '${name}'`);
+    }
+    return { ...boost, filter: compileCondition(name, boost.when) };
+  });
+
+  return { name, quotas, boosts, minScore: definition.minScore };
+}
+
+const compiledPolicies = new Map<string, RankingPolicy>();
+
+// A configured policy by name (built-in or from RANKING_POLICIES)
+export function getRankingPolicy(name: string): RankingPolicy {
+  let policy = compiledPolicies.get(name);
+  if (!policy) {
+    const definition = Object.hasOwn(config.ranking.policies, name) ? config.ranking.policies[name] : undefined;
+    if (!definition) {
+      throw new Error(
+        `Unknown ranking policy '${name}'. Available policies: ${Object.keys(config.ranking.policies).join(', ')}`
+      );
+    }
+    policy = compileRankingPolicy(name, definition);
+    compiledPolicies.set(name, policy);
+  }
+  return policy;
+}
+
+/**
+ * Split `total` slots between quotas in proportion to their shares, using the
+ * largest remainder method so the counts always add up to exactly `total`.
+ */
+export function allocateQuotas(shares: number[], total: number): number[] {
+  const sum = shares.reduce((a, b) => a + b, 0);
+  if (sum <= 0 || total <= 0) return shares.map(() => 0);
+
+  const exact = shares.map((share) => (share / sum) * total);
+  const counts = exact.map(Math.floor);
+  let remaining = total - counts.reduce((a, b) => a + b, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - counts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (remaining === 0) break;
+    counts[index]++;
+    remaining--;
+  }
+
+  return counts;
+}
+
+// Sum of the policy's boosts for one match
+export function boostFor(policy: RankingPolicy, metadata: VectorMetadata = {}, now: number = Date.now()): number {
+  let total = 0;
+
+  for (const boost of policy.boosts) {
+    if (boost.filter && !matchesFilter(metadata, boost.filter)) continue;
+
+    switch (boost.type) {
+      case 'match':
+        total += boost.weight;
+        break;
+      case 'field': {
+        const value = metadata[boost.field];
+        if (typeof value === 'number') total += (boost.weight * value) / (boost.scale || 1);
+        else if (typeof value === 'boolean' && value) total += boost.weight / (boost.scale || 1);
+        break;
+      }
+      case 'recency': {
+        const uploadedAt =
+          typeof metadata[UPLOADED_AT_FIELD] === 'number'
+            ? (metadata[UPLOADED_AT_FIELD] as number)
+            : Date.parse(String(metadata.uploadedAt));
+        if (Number.isNaN(uploadedAt)) break;
+        const ageDays = Math.max(0, now - uploadedAt) / DAY_MS;
+        total += boost.weight * Math.pow(0.5, ageDays / boost.halfLifeDays);
+        break;
+      }
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Rank matches under a policy and keep the best `topK`:
+ * 1. drop matches below `minScore`
+ * 2. add the boosts to each score
+ * 3. fill each quota with its best matches (a match counts towards the first
+ *    quota it meets); slots a quota can't fill go to the best remaining matches
+ * 4. order the result by boosted score
+ *
+ * Pure: works on any list of scored matches, no vector store needed.
+ */
+export function applyRankingPolicy<T extends RankableMatch>(
+  matches: T[],
+  policy: RankingPolicy,
+  topK: number,
+  now: number = Date.now()
+): T[] {
+  const ranked = matches
+    .filter((match) => policy.minScore === undefined || match.score >= policy.minScore)
+    .map((match) => ({ match, rank: match.score + boostFor(policy, match.metadata, now) }))
+    .sort((a, b) => b.rank - a.rank);
+
+  let selected = ranked.slice(0, topK);
+  if (policy.quotas.length > 0) {
+    const slots = allocateQuotas(policy.quotas.map((quota) => quota.share), Math.min(topK, ranked.length));
+    const picked = new Set<(typeof ranked)[number]>();
+
+    for (const entry of ranked) {
+      const quota = policy.quotas.findIndex((q) => matchesFilter(entry.match.metadata, q.filter));
+      if (quota !== -1 && slots[quota] > 0) {
+        slots[quota]--;
+        picked.add(entry);
+      }
+    }
+    for (const entry of ranked) {
+      if (picked.size >= topK) break;
+      picked.add(entry);
+    }
+
+    selected = ranked.filter((entry) => picked.has(entry));
+  }
+
+  return selected.map((entry) => entry.match);
+}
+
+// Returns an error message if a request's rankingPolicy isn't a configured policy, otherwise null
+export function validateRankingPolicyName(value: unknown): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== 'string' || !Object.hasOwn(config.ranking.policies, value)) {
+    return `rankingPolicy must be one of: ${Object.keys(config.ranking.policies).join(', ')}`;
+  }
+  return null;
+}
@@ -0,0 +1,146 @@
+import { describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isRetryableError, RequestBatcher, RequestScheduler, retryAfterMs } from './request-scheduler';
+
+const OPTIONS = {
+  name: 'Test',
+  maxRetries: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 5,
+  requestsPerMinute: 0,
+  tokensPerMinute: 0,
+};
+
+// Lets every pending promise callback run
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+// A request that fails with each of `errors` in turn, then succeeds
+function failing(...errors: unknown[]) {
+  const remaining = [...errors];
+  return mock.fn(async () => {
+    if (remaining.length > 0) throw remaining.shift();
+    return 'ok';
+  });
+}
+
+describe('request scheduler', () => {
+  test('retries rate limits, server errors and dropped connections', async (t) => {
+    t.mock.method(console, 'warn', () => undefined);
+    const scheduler = new RequestScheduler(OPTIONS);
+
+    const request = failing({ status: 429 }, { code: 'ECONNRESET' });
+    assert.equal(await scheduler.run(request), 'ok');
+    assert.equal(request.mock.callCount(), 3);
+
+    const wrapped = failing(new Error('fetch failed', { cause: { response: { status: 503 } } }));
+    assert.equal(await scheduler.run(wrapped), 'ok');
+    assert.equal(wrapped.mock.callCount(), 2);
+  });
+
+  test('gives up on errors retrying will not fix and after maxRetries', async (t) => {
+    t.mock.method(console, 'warn', () => undefined);
+    const scheduler = new RequestScheduler(OPTIONS);
+
+    for (const error of [{ status: 400 }, { status: 429, code: 'insufficient_quota' }]) {
+      const request = failing(error);
+      await assert.rejects(scheduler.run(request), (thrown) => thrown === error);
+      assert.equal(request.mock.callCount(), 1);
+    }
+
+    const overloaded = failing({ status: 503 }, { status: 503 }, { status: 503 });
+    await assert.rejects(scheduler.run(overloaded), { status: 503 });
+    assert.equal(overloaded.mock.callCount(), 3);
+  });
+
+  test('classifies errors and reads the delay a provider asks for', () => {
+    assert.equal(isRetryableError({ status: 500 }), true);
+    assert.equal(isRetryableError({ status: 401 }), false);
+    assert.equal(isRetryableError(new Error('invalid input')), false);
+
+    assert.equal(retryAfterMs({ headers: { 'retry-after-ms': '250' } }), 250);
+    assert.equal(retryAfterMs({ headers: new Headers({ 'retry-after': '2' }) }), 2000);
+    assert.equal(retryAfterMs({ cause: { response: { headers: { 'retry-after': '1' } } } }), 1000);
+    assert.equal(retryAfterMs({ status: 429 }), undefined);
+  });
+
+  test('waits for room in the requests-per-minute budget', async (t) => {
+    t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 });
+    const scheduler = new RequestScheduler({ ...OPTIONS, requestsPerMinute: 2 });
+    const started: number[] = [];
+
+    const runs = [1, 2, 3].map(() => scheduler.run(async () => started.push(Date.now())));
+    await settle();
+    assert.deepEqual(started, [0, 0]);
+
+    t.mock.timers.tick(59999);
+    await settle();
+    assert.deepEqual(started, [0, 0]);
+
+    t.mock.timers.tick(1);
+    await settle();
+    assert.deepEqual(started, [0, 0, 60000]);
+    await Promise.all(runs);
+  });
+
+  test('waits for room in the tokens-per-minute budget, in turn', async (t) => {
+    t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 });
+    const scheduler = new RequestScheduler({ ...OPTIONS, tokensPerMinute: 100 });
+    const started: string[] = [];
+    const run = (label: string, tokens: number) => scheduler.run(async () => started.push(label), tokens);
+
+    // The large request waits for the budget and the small one behind it waits its turn
+    const runs = [run('first', 60), run('large', 150), run('small', 10)];
+    await settle();
+    assert.deepEqual(started, ['first']);
+
+    // A request larger than the whole budget goes once the window is empty
+    t.mock.timers.tick(60000);
+    await settle();
+    assert.deepEqual(started, ['first', 'large']);
+
+    t.mock.timers.tick(60000);
+    await settle();
+    assert.deepEqual(started, ['first', 'large', 'small']);
+    await Promise.all(runs);
+  });
+});
+
+describe('request batcher', () => {
+  test('combines calls into requests of up to maxItems and returns each its own results', async () => {
+    const send = mock.fn(async (items: string[]) => items.map((item) => item.toUpperCase()));
+    const batcher = new RequestBatcher(send, 4, 10);
+
+    const results = await Promise.all([batcher.add(['a', 'b']), batcher.add(['c']), batcher.add(['d', 'e'])]);
+
+    assert.deepEqual(results, [['A', 'B'], ['C'], ['D', 'E']]);
+    assert.deepEqual(
+      send.mock.calls.map((call) => call.arguments[0]),
+      [['a', 'b', 'c'], ['d', 'e']]
+    );
+  });
+
+  test('sends calls that fill a request by themselves in parts', async () => {
+    const send = mock.fn(async (items: number[]) => items.map((item) => item * 2));
+    const batcher = new RequestBatcher(send, 2, 10);
+
+    assert.deepEqual(await batcher.add([1, 2, 3, 4, 5]), [2, 4, 6, 8, 10]);
+    assert.deepEqual(
+      send.mock.calls.map((call) => call.arguments[0]),
+      [[1, 2], [3, 4], [5]]
+    );
+  });
+
+  test('resends a failed combined request call by call so only the offending call fails', async () => {
+    const send = mock.fn(async (items: string[]) => {
+      if (items.includes('')) throw Object.assign(new Error('empty input'), { status: 400 });
+      return items.map((item) => item.length);
+    });
+    const batcher = new RequestBatcher(send, 10, 10);
+
+    const [good, bad] = await Promise.allSettled([batcher.add(['one', 'three']), batcher.add([''])]);
+
+    assert.deepEqual(good, { status: 'fulfilled', value: [3, 5] });
+    assert.equal(bad.status, 'rejected');
+    assert.equal(send.mock.callCount(), 3);
+  });
+});
@@ -0,0 +1,230 @@
+import { APIConnectionError } from 'openai';
+
+export interface RequestSchedulerOptions {
+  name: string; // used in log messages
+  maxRetries: number;
+  baseDelayMs: number; // first retry delay, doubled on every further retry
+  maxDelayMs: number;
+  requestsPerMinute: number; // 0 = no limit
+  tokensPerMinute: number; // 0 = no limit
+}
+
+// The subset of OpenAI SDK and axios errors the scheduler looks at
+interface ProviderError {
+  status?: number;
+  code?: string | null;
+  headers?: unknown;
+  response?: { status?: number; headers?: unknown };
+  cause?: unknown;
+}
+
+const WINDOW_MS = 60000;
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429]);
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE']);
+
+export const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Rough token count for budgeting: OpenAI tokenizers average about 4 characters per token
+export const estimateTokens = (texts: string[]): number =>
+  Math.ceil(texts.reduce((total, text) => total + text.length, 0) / 4);
+
+const statusOf = (error: ProviderError): number | undefined => error.status ?? error.response?.status;
+
+/**
+ * Rate limiting, timeouts, server errors and dropped connections are worth
+ * retrying; bad requests, authentication errors and exhausted quotas are not.
+ * Errors wrapped with `{ cause }` are judged by their cause.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const providerError = error as ProviderError;
+  if (providerError.cause !== undefined && isRetryableError(providerError.cause)) return true;
+
+  // OpenAI answers 429 both for rate limits and for an account out of credit
+  if (providerError.code === 'insufficient_quota') return false;
+
+  const status = statusOf(providerError);
+  if (status !== undefined) return RETRYABLE_STATUSES.has(status) || status >= 500;
+
+  // No response at all: the SDK's connection errors (including timeouts) and axios network errors
+  return error instanceof APIConnectionError || RETRYABLE_NETWORK_CODES.has(providerError.code || '');
+}
+
+function header(error: ProviderError, name: string): string | undefined {
+  const headers = (error.headers ?? error.response?.headers) as
+    | { get?: (name: string) => string | null; [name: string]: unknown }
+    | undefined;
+  if (!headers) return undefined;
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+// The wait a rate-limited response asks for (Retry-After in seconds or as a date), if any
+export function retryAfterMs(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+  const providerError = error as ProviderError;
+
+  const ms = Number(header(providerError, 'retry-after-ms'));
+  if (Number.isFinite(ms) && ms >= 0) return ms;
+
+  const retryAfter = header(providerError, 'retry-after');
+  if (retryAfter === undefined) {
+    return providerError.cause !== undefined ? retryAfterMs(providerError.cause) : undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function describeError(error: unknown): string {
+  const providerError = (error || {}) as ProviderError;
+  const status = typeof error === 'object' ? statusOf(providerError) : undefined;
+  if (status !== undefined) return `HTTP ${status}`;
+  if (providerError.code) return providerError.code;
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Runs requests to a rate-limited provider: waits for room in the
+ * requests-per-minute and tokens-per-minute budgets before each attempt, and
+ * retries retryable failures with exponential backoff and jitter (or the
+ * delay the provider asks for).
+ */
+export class RequestScheduler {
+  // Requests started within the last minute, oldest first
+  private sent: Array<{ at: number; tokens: number }> = [];
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: RequestSchedulerOptions) {}
+
+  async run<T>(request: () => Promise<T>, tokens = 0): Promise<T> {
+    const { name, maxRetries, maxDelayMs } = this.options;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(tokens);
+      try {
+        return await request();
+      } catch (error) {
+        if (attempt >= maxRetries || !isRetryableError(error)) throw error;
+
+        const delay = Math.min(retryAfterMs(error) ?? this.backoff(attempt), maxDelayMs);
+        console.warn(
+          `${name} request failed (${describeError(error)}), retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  // Half the exponential delay plus a random share of the other half, so concurrent callers don't retry in lockstep
+  private backoff(attempt: number): number {
+    const delay = Math.min(this.options.baseDelayMs * 2 ** attempt, this.options.maxDelayMs);
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  // Callers take budget in turn, so a large request isn't starved by smaller ones behind it
+  private acquire(tokens: number): Promise<void> {
+    const turn = this.queue.then(() => this.waitForBudget(tokens));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForBudget(tokens: number): Promise<void> {
+    const { requestsPerMinute, tokensPerMinute } = this.options;
+
+    for (;;) {
+      const now = Date.now();
+      this.sent = this.sent.filter((request) => now - request.at < WINDOW_MS);
+
+      const tokensUsed = this.sent.reduce((total, request) => total + request.tokens, 0);
+      const requestsFit = !requestsPerMinute || this.sent.length < requestsPerMinute;
+      // A request larger than the whole token budget goes once the window is empty
+      const tokensFit = !tokensPerMinute || tokensUsed + tokens <= tokensPerMinute || this.sent.length === 0;
+      if (requestsFit && tokensFit) {
+        this.sent.push({ at: now, tokens });
+        return;
+      }
+
+      await sleep(this.sent[0].at + WINDOW_MS - now);
+    }
+  }
+}
+
+interface PendingCall<I, O> {
+  items: I[];
+  resolve: (results: O[]) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Combines calls made within `waitMs` of each other into requests of up to
+ * `maxItems` items; each call gets back the results for its own items. When
+ * a combined request fails for a reason retrying won't fix (e.g. one input
+ * the provider rejects), its calls are sent again separately so only the
+ * offending call fails.
+ */
+export class RequestBatcher<I, O> {
+  private pending: PendingCall<I, O>[] = [];
+  private pendingItems = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly send: (items: I[]) => Promise<O[]>,
+    private readonly maxItems: number,
+    private readonly waitMs: number
+  ) {}
+
+  add(items: I[]): Promise<O[]> {
+    if (items.length === 0) return Promise.resolve([]);
+    // Calls that fill a request by themselves are not held back
+    if (items.length >= this.maxItems) return this.sendInParts(items);
+
+    return new Promise<O[]>((resolve, reject) => {
+      if (this.pendingItems + items.length > this.maxItems) this.flush();
+
+      this.pending.push({ items, resolve, reject });
+      this.pendingItems += items.length;
+      if (this.pendingItems >= this.maxItems) {
+        this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.waitMs);
+      }
+    });
+  }
+
+  private flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const calls = this.pending;
+    this.pending = [];
+    this.pendingItems = 0;
+    if (calls.length > 0) void this.sendCalls(calls);
+  }
+
+  private async sendCalls(calls: PendingCall<I, O>[]): Promise<void> {
+    try {
+      const results = await this.send(calls.flatMap((call) => call.items));
+      let offset = 0;
+      for (const call of calls) {
+        call.resolve(results.slice(offset, (offset += call.items.length)));
+      }
+    } catch (error) {
+      if (calls.length === 1 || isRetryableError(error)) {
+        calls.forEach((call) => call.reject(error));
+        return;
+      }
+      await Promise.all(calls.map((call) => this.send(call.items).then(call.resolve, call.reject)));
+    }
+  }
+
+  private async sendInParts(items: I[]): Promise<O[]> {
+    const results: O[] = [];
+    for (let i = 0; i < items.length; i += this.maxItems) {
+      results.push(...(await this.send(items.slice(i, i + this.maxItems))));
+    }
+    return results;
+  }
+}
@@ -0,0 +1,50 @@
+import { config } from '@/lib/config';
+import type { RerankOptions } from '@/services/rerank.service';
+import { RerankerName } from '@/types';
+
+const RERANKERS: RerankerName[] = ['llm', 'http', 'lexical'];
+
+export interface ParsedRerankOption {
+  rerank?: RerankOptions;
+  error?: string;
+}
+
+/**
+ * The `rerank` field of a query request: `true` uses the configured reranker,
+ * a reranker name picks one, `{ "reranker": "llm", "candidates": 30 }` also
+ * sets how many results are rescored, and `false` turns reranking off. When
+ * omitted, RERANKER decides.
+ */
+export function parseRerankOption(value: unknown): ParsedRerankOption {
+  if (value === undefined) {
+    return config.rerank.provider === 'none' ? {} : { rerank: { reranker: config.rerank.provider } };
+  }
+  if (value === false) return {};
+  if (value === true) {
+    if (config.rerank.provider === 'none') {
+      return { error: 'No default reranker is configured (RERANKER); name one: llm, http or lexical' };
+    }
+    return { rerank: { reranker: config.rerank.provider } };
+  }
+
+  const { reranker, candidates } = (typeof value === 'string' ? { reranker: value } : value || {}) as {
+    reranker?: unknown;
+    candidates?: unknown;
+  };
+  if (typeof reranker !== 'string' || !RERANKERS.includes(reranker as RerankerName)) {
+    return { error: `rerank.reranker must be one of: ${RERANKERS.join(', ')}` };
+  }
+  if (
+    candidates !== undefined &&
+    (!Number.isInteger(candidates) || (candidates as number) < 1 || (candidates as number) > config.rerank.maxCandidates)
+  ) {
+    return { error: `rerank.candidates must be an integer between 1 and ${config.rerank.maxCandidates}` };
+  }
+
+  return {
+    rerank: {
+      reranker: reranker as RerankerName,
+      ...(candidates !== undefined && { candidates: candidates as number }),
+    },
+  };
+}
@@ -0,0 +1,133 @@
+import type { VectorMetadata } from '@/services/vector-store.service';
+import { EvaluationRun, GoldenQuery, QueryEvaluation, RetrievalMetrics } from '@/types';
+
+export const METRICS: Array<keyof RetrievalMetrics> = ['recall', 'mrr', 'ndcg'];
+
+// Changes smaller than this are rounding noise, not a regression
+const EPSILON = 1e-6;
+
+// Expected results as keys, e.g. "handle:rain-jacket"
+export function expectedKeys(expected: GoldenQuery['expected']): string[] {
+  return [
+    ...(expected.documentIds || []).map((id) => `document:${id}`),
+    ...(expected.handles || []).map((handle) => `handle:${handle}`),
+    ...(expected.filenames || []).map((filename) => `filename:${filename}`),
+  ];
+}
+
+// Every key a hit can be recognized by
+export function hitKeys(metadata: VectorMetadata = {}): string[] {
+  const keys: string[] = [];
+  if (typeof metadata.documentId === 'string') keys.push(`document:${metadata.documentId}`);
+  if (typeof metadata.productHandle === 'string') keys.push(`handle:${metadata.productHandle}`);
+  if (typeof metadata.filename === 'string') keys.push(`filename:${metadata.filename}`);
+  return keys;
+}
+
+/**
+ * Score one ranking. Each expected result counts once, at the rank of the
+ * first hit it identifies, so several chunks of the same document don't
+ * inflate recall or nDCG.
+ */
+export function scoreRanking(
+  hits: string[][],
+  expected: string[],
+  k: number
+): RetrievalMetrics & { found: string[]; missing: string[] } {
+  const remaining = new Set(expected);
+  const found: string[] = [];
+  let mrr = 0;
+  let dcg = 0;
+
+  hits.slice(0, k).forEach((keys, rank) => {
+    const matched = keys.filter((key) => remaining.has(key));
+    if (matched.length === 0) return;
+    matched.forEach((key) => remaining.delete(key));
+    found.push(...matched);
+    if (mrr === 0) mrr = 1 / (rank + 1);
+    dcg += 1 / Math.log2(rank + 2);
+  });
+
+  let idcg = 0;
+  for (let rank = 0; rank < Math.min(expected.length, k); rank++) {
+    idcg += 1 / Math.log2(rank + 2);
+  }
+
+  return {
+    recall: expected.length ? found.length / expected.length : 0,
+    mrr,
+    ndcg: idcg ? Math.min(1, dcg / idcg) : 0,
+    found,
+    missing: [...remaining],
+  };
+}
+
+export function meanMetrics(scores: RetrievalMetrics[]): RetrievalMetrics {
+  const mean = (metric: keyof RetrievalMetrics) =>
+    scores.length ? scores.reduce((sum, score) => sum + score[metric], 0) / scores.length : 0;
+  return { recall: mean('recall'), mrr: mean('mrr'), ndcg: mean('ndcg') };
+}
+
+export interface MetricChange {
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export interface QueryChange {
+  id: string;
+  query: string;
+  changes: Partial<Record<keyof RetrievalMetrics, MetricChange>>;
+}
+
+export interface EvaluationDiff {
+  metrics: Record<keyof RetrievalMetrics, MetricChange>;
+  improved: QueryChange[];
+  regressed: QueryChange[];
+  added: string[]; // query ids only in the current run
+  removed: string[]; // query ids only in the baseline
+}
+
+function change(baseline: number, current: number): MetricChange {
+  return { baseline, current, delta: current - baseline };
+}
+
+// Compare two runs query by query; a query regressed if any of its metrics dropped
+export function compareRuns(current: EvaluationRun, baseline: EvaluationRun): EvaluationDiff {
+  const previous = new Map(baseline.queries.map((query) => [query.id, query]));
+  const currentIds = new Set(current.queries.map((query) => query.id));
+  const improved: QueryChange[] = [];
+  const regressed: QueryChange[] = [];
+
+  for (const query of current.queries) {
+    const before: QueryEvaluation | undefined = previous.get(query.id);
+    if (!before) continue;
+
+    const changes: QueryChange['changes'] = {};
+    for (const metric of METRICS) {
+      if (Math.abs(query[metric] - before[metric]) > EPSILON) {
+        changes[metric] = change(before[metric], query[metric]);
+      }
+    }
+    const deltas = Object.values(changes).map((metricChange) => metricChange.delta);
+    if (deltas.some((delta) => delta < 0)) regressed.push({ id: query.id, query: query.query, changes });
+    else if (deltas.length > 0) improved.push({ id: query.id, query: query.query, changes });
+  }
+
+  return {
+    metrics: {
+      recall: change(baseline.metrics.recall, current.metrics.recall),
+      mrr: change(baseline.metrics.mrr, current.metrics.mrr),
+      ndcg: change(baseline.metrics.ndcg, current.metrics.ndcg),
+    },
+    improved,
+    regressed,
+    added: current.queries.filter((query) => !previous.has(query.id)).map((query) => query.id),
+    removed: baseline.queries.filter((query) => !currentIds.has(query.id)).map((query) => query.id),
+  };
+}
+
+// True when any mean metric dropped compared with the baseline
+export function hasRegressed(diff: EvaluationDiff): boolean {
+  return METRICS.some((metric) => diff.metrics[metric].delta < -EPSILON);
+}
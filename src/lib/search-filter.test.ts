@@ -0,0 +1,86 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { combineFilters, parseSearchFilter, UPLOADED_AT_FIELD } from './search-filter';
+
+describe('search filter', () => {
+  test('translates conditions into vector store clauses', () => {
+    const { filter, errors } = parseSearchFilter({
+      vendor: 'Acme',
+      type: { in: ['Jacket', 'Coat'] },
+      price: { gte: 10, lt: 50 },
+      inStock: true,
+      tags: { containsAll: ['waterproof', 'hooded'] },
+    });
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(filter, {
+      $and: [
+        { vendor: { $eq: 'Acme' } },
+        { type: { $in: ['Jacket', 'Coat'] } },
+        { price: { $gte: 10 } },
+        { price: { $lt: 50 } },
+        { inStock: { $eq: true } },
+        { $and: [{ tags: { $in: ['waterproof'] } }, { tags: { $in: ['hooded'] } }] },
+      ],
+    });
+  });
+
+  test('a bare value means equality, or contains for lists', () => {
+    assert.deepEqual(parseSearchFilter({ sku: 'LW-120' }).filter, { sku: { $eq: 'LW-120' } });
+    assert.deepEqual(parseSearchFilter({ tags: 'gift' }).filter, { tags: { $in: ['gift'] } });
+    assert.deepEqual(parseSearchFilter({ tags: { excludes: ['sale'] } }).filter, { tags: { $nin: ['sale'] } });
+  });
+
+  test('filters dates on the epoch copy, with a date-only end including the whole day', () => {
+    const { filter } = parseSearchFilter({ uploadedAt: { from: '2024-01-01', to: '2024-06-30' } });
+
+    assert.deepEqual(filter, {
+      $and: [
+        { [UPLOADED_AT_FIELD]: { $gte: Date.parse('2024-01-01') } },
+        { [UPLOADED_AT_FIELD]: { $lte: Date.parse('2024-07-01') - 1 } },
+      ],
+    });
+  });
+
+  test('reports every problem', () => {
+    const { filter, errors } = parseSearchFilter({
+      colour: 'red',
+      price: { gte: '10', between: [1, 2] },
+      inStock: {},
+      uploadedAt: '2024-01-01',
+      tags: { containsAny: [] },
+    });
+
+    assert.equal(filter, undefined);
+    assert.equal(errors.length, 6);
+    assert.match(errors[0], /^Unknown filter field 'colour'/);
+    assert.deepEqual(errors.slice(1), [
+      'price.gte: expected a number',
+      "price: unsupported operator 'between' (use eq, ne, in, nin, gt, gte, lt, lte)",
+      'inStock: condition is empty',
+      'uploadedAt: expected a range such as { "from": "2024-01-01", "to": "2024-06-30" }',
+      'tags.containsAny: expected a non-empty array of strings',
+    ]);
+  });
+
+  test('names on Object.prototype are unknown fields', () => {
+    for (const field of ['constructor', 'toString', 'hasOwnProperty', '__proto__']) {
+      const { errors } = parseSearchFilter(JSON.parse(`{ "${field}": { "eq": "x" } }`));
+      assert.equal(errors.length, 1, field);
+      assert.match(errors[0], new RegExp(`^Unknown filter field '${field}'`));
+    }
+  });
+
+  test('rejects filters that are not objects', () => {
+    assert.deepEqual(parseSearchFilter(undefined), { errors: [] });
+    assert.deepEqual(parseSearchFilter(['vendor']).errors, ['filter must be an object of field conditions']);
+  });
+
+  test('combines filters, skipping missing and empty ones', () => {
+    assert.equal(combineFilters([undefined, {}]), undefined);
+    assert.deepEqual(combineFilters([{ a: { $eq: 1 } }, undefined]), { a: { $eq: 1 } });
+    assert.deepEqual(combineFilters([{ a: { $eq: 1 } }, { b: { $eq: 2 } }]), {
+      $and: [{ a: { $eq: 1 } }, { b: { $eq: 2 } }],
+    });
+  });
+});
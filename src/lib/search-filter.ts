@@ -0,0 +1,181 @@
+import { config } from '@/lib/config';
+import { mappedFilterFields } from '@/lib/shopify-fields';
+import type { VectorFilter } from '@/services/vector-store.service';
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'list' | 'date';
+
+// Metadata fields a search may filter on, and how their values compare
+export const FILTER_FIELDS: Record<string, FieldKind> = {
+  documentId: 'string',
+  filename: 'string',
+  source: 'string',
+  originalFormat: 'string',
+  section: 'string',
+  url: 'string',
+  productType: 'string',
+  productHandle: 'string',
+  productTitle: 'string',
+  vendor: 'string',
+  type: 'string',
+  sku: 'string',
+  price: 'number',
+  priceMin: 'number',
+  priceMax: 'number',
+  variantCount: 'number',
+  priorityScore: 'number',
+  chunkIndex: 'number',
+  pageStart: 'number',
+  pageEnd: 'number',
+  inStock: 'boolean',
+  tags: 'list',
+  variantSkus: 'list',
+  inStockVariants: 'list',
+  uploadedAt: 'date',
+};
+
+// The built-in fields plus those Shopify field mappings add to product metadata
+function filterFields(): Record<string, FieldKind> {
+  const mappings = [...Object.values(config.shopify.stores).flatMap((store) => store.fields), ...config.shopify.fields];
+  return { ...mappedFilterFields(mappings), ...FILTER_FIELDS };
+}
+
+const OPERATORS: Record<FieldKind, string[]> = {
+  string: ['eq', 'ne', 'in', 'nin'],
+  number: ['eq', 'ne', 'in', 'nin', 'gt', 'gte', 'lt', 'lte'],
+  boolean: ['eq', 'ne'],
+  list: ['contains', 'containsAny', 'containsAll', 'excludes'],
+  date: ['from', 'to', 'gt', 'gte', 'lt', 'lte'],
+};
+
+// Vector stores only compare numbers, so dates are filtered on this epoch-milliseconds copy
+export const UPLOADED_AT_FIELD = 'uploadedAtTs';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ParsedSearchFilter {
+  filter?: VectorFilter;
+  errors: string[];
+}
+
+/**
+ * Translates the search filter language into a vector store filter:
+ *
+ *   { "vendor": "Acme",                              equality
+ *     "type": { "in": ["Jacket", "Coat"] },          membership (eq, ne, in, nin)
+ *     "price": { "gte": 10, "lt": 50 },              ranges on numbers
+ *     "inStock": true,
+ *     "tags": { "contains": "waterproof" },          contains, containsAny, containsAll, excludes
+ *     "uploadedAt": { "from": "2024-01-01", "to": "2024-06-30" } }
+ *
+ * Conditions on different fields must all hold. Dates are ISO strings or epoch
+ * milliseconds; a date-only `to` includes the whole day. Every problem is
+ * reported rather than just the first.
+ */
+export function parseSearchFilter(input: unknown): ParsedSearchFilter {
+  if (input === undefined || input === null) return { errors: [] };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['filter must be an object of field conditions'] };
+  }
+
+  const errors: string[] = [];
+  const clauses: VectorFilter[] = [];
+  const fields = filterFields();
+
+  for (const [field, condition] of Object.entries(input)) {
+    // Own keys only, so "constructor" or "toString" is an unknown field rather than an Object.prototype method
+    const kind = Object.hasOwn(fields, field) ? fields[field] : undefined;
+    if (!kind) {
+      errors.push(`Unknown filter field '${field}'. Filterable fields: ${Object.keys(fields).join(', ')}`);
+      continue;
+    }
+
+    const isObject = condition !== null && typeof condition === 'object' && !Array.isArray(condition);
+    if (!isObject && kind === 'date') {
+      errors.push(`${field}: expected a range such as { "from": "2024-01-01", "to": "2024-06-30" }`);
+      continue;
+    }
+
+    // A bare value is shorthand for equality (or `contains` for lists)
+    const operations: Record<string, unknown> = isObject
+      ? (condition as Record<string, unknown>)
+      : { [kind === 'list' ? 'contains' : 'eq']: condition };
+
+    if (Object.keys(operations).length === 0) {
+      errors.push(`${field}: condition is empty`);
+    }
+
+    for (const [operator, operand] of Object.entries(operations)) {
+      if (!OPERATORS[kind].includes(operator)) {
+        errors.push(`${field}: unsupported operator '${operator}' (use ${OPERATORS[kind].join(', ')})`);
+        continue;
+      }
+
+      const clause = toClause(field, kind, operator, operand);
+      if (typeof clause === 'string') {
+        errors.push(`${field}.${operator}: ${clause}`);
+      } else {
+        clauses.push(clause);
+      }
+    }
+  }
+
+  if (errors.length > 0) return { errors };
+  return { filter: combineFilters(clauses), errors };
+}
+
+// All of the given filters must match; undefined when there are none
+export function combineFilters(filters: Array<VectorFilter | undefined>): VectorFilter | undefined {
+  const present = filters.filter((filter): filter is VectorFilter => !!filter && Object.keys(filter).length > 0);
+  if (present.length === 0) return undefined;
+  return present.length === 1 ? present[0] : { $and: present };
+}
+
+// The vector store clause for one condition, or an error message
+function toClause(field: string, kind: FieldKind, operator: string, operand: unknown): VectorFilter | string {
+  if (kind === 'list') {
+    const values = operator === 'contains' ? [operand] : operand;
+    if (!Array.isArray(values) || values.length === 0 || !values.every((value) => typeof value === 'string')) {
+      return operator === 'contains' ? 'expected a string' : 'expected a non-empty array of strings';
+    }
+    if (operator === 'containsAll') {
+      return { $and: values.map((value) => ({ [field]: { $in: [value] } })) };
+    }
+    return { [field]: { [operator === 'excludes' ? '$nin' : '$in']: values } };
+  }
+
+  if (kind === 'date') {
+    const timestamp = toTimestamp(operand, operator === 'to');
+    if (timestamp === null) {
+      return 'expected an ISO date (e.g. 2024-06-30) or epoch milliseconds';
+    }
+    const comparison = operator === 'from' ? '$gte' : operator === 'to' ? '$lte' : `$${operator}`;
+    return { [UPLOADED_AT_FIELD]: { [comparison]: timestamp } };
+  }
+
+  const isValue = (value: unknown) =>
+    kind === 'number'
+      ? typeof value === 'number' && Number.isFinite(value)
+      : typeof value === kind;
+
+  if (operator === 'in' || operator === 'nin') {
+    if (!Array.isArray(operand) || operand.length === 0 || !operand.every(isValue)) {
+      return `expected a non-empty array of ${kind}s`;
+    }
+  } else if (!isValue(operand)) {
+    return `expected a ${kind}`;
+  }
+
+  return { [field]: { [`$${operator}`]: operand } };
+}
+
+function toTimestamp(value: unknown, endOfDay: boolean): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) return null;
+  return endOfDay && DATE_ONLY.test(value) ? timestamp + DAY_MS - 1 : timestamp;
+}
@@ -0,0 +1,103 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  formatFieldValue,
+  mappedFilterFields,
+  parseFieldValue,
+  resolveField,
+  validateFieldMapping,
+} from './shopify-fields';
+
+describe('shopify fields', () => {
+  test('takes the label, field name and parser of a metafield from its column', () => {
+    const mappings = [{ column: 'Metafield: *', target: 'both' as const }];
+
+    assert.deepEqual(resolveField('Metafield: custom.smells_like [list.single_line_text_field]', mappings), {
+      column: 'Metafield: custom.smells_like [list.single_line_text_field]',
+      target: 'both',
+      label: 'Smells like',
+      field: 'smellsLike',
+      parser: 'list',
+    });
+    assert.equal(resolveField('Metafield: custom.rating [rating]', mappings)?.parser, 'number');
+    assert.equal(resolveField('Metafield: custom.weight [number_decimal]', mappings)?.parser, 'number');
+    assert.equal(resolveField('Metafield: custom.vegan [boolean]', mappings)?.parser, 'boolean');
+    assert.equal(resolveField('Metafield: custom.care [rich_text_field]', mappings)?.parser, 'rich-text');
+    assert.equal(resolveField('Metafield: custom.manual [file_reference]', mappings)?.parser, 'file-reference');
+    assert.equal(resolveField('Metafield: title_tag [string]', mappings)?.field, 'titleTag');
+  });
+
+  test('applies the first matching mapping, with its own label, field and parser', () => {
+    const mappings = [
+      { column: 'Metafield: judgeme.* [*]', target: 'none' as const },
+      { column: 'Metafield: custom.origin [*]', target: 'metadata' as const, field: 'country', label: 'Made in' },
+      { column: 'Smart Collections', target: 'text' as const, parser: 'list' as const },
+      { column: 'Metafield: *', target: 'text' as const },
+    ];
+
+    assert.equal(resolveField('Metafield: judgeme.badge [string]', mappings)?.target, 'none');
+    assert.deepEqual(resolveField('Metafield: custom.origin [single_line_text_field]', mappings), {
+      column: 'Metafield: custom.origin [single_line_text_field]',
+      target: 'metadata',
+      label: 'Made in',
+      field: 'country',
+      parser: 'text',
+    });
+    assert.deepEqual(resolveField('Smart Collections', mappings), {
+      column: 'Smart Collections',
+      target: 'text',
+      label: 'Smart Collections',
+      field: 'smartCollections',
+      parser: 'list',
+    });
+    assert.equal(resolveField('Google Shopping / MPN', mappings), null);
+  });
+
+  test('declares the metadata fields of exact-column mappings as filterable', () => {
+    const fields = mappedFilterFields([
+      { column: 'Metafield: custom.vegan [boolean]', target: 'both' },
+      { column: 'Metafield: custom.rating [rating]', target: 'metadata' },
+      { column: 'Metafield: custom.scents [list.single_line_text_field]', target: 'metadata' },
+      { column: 'Metafield: custom.origin [single_line_text_field]', target: 'metadata', field: 'country' },
+      { column: 'Metafield: custom.summary [multi_line_text_field]', target: 'text' },
+      { column: 'Metafield: extra.* [*]', target: 'metadata' },
+    ]);
+
+    assert.deepEqual(fields, { vegan: 'boolean', rating: 'number', scents: 'list', country: 'string' });
+  });
+
+  test('parses cell values and skips empty or unparseable ones', () => {
+    const richText = JSON.stringify({
+      type: 'root',
+      children: [{ type: 'paragraph', children: [{ type: 'text', value: 'Hand  wash' }, { type: 'text', value: 'only.' }] }],
+    });
+
+    assert.equal(parseFieldValue(richText, 'rich-text'), 'Hand wash only.');
+    assert.equal(parseFieldValue('<p>Hand <b>wash</b></p>', 'rich-text'), 'Hand wash');
+    assert.deepEqual(parseFieldValue('["Rose", " Neroli "]', 'list'), ['Rose', 'Neroli']);
+    assert.deepEqual(parseFieldValue('Rose; Neroli\nJasmine', 'list'), ['Rose', 'Neroli', 'Jasmine']);
+    assert.equal(parseFieldValue('{"value":"4.5","scale_min":"1.0","scale_max":"5.0"}', 'number'), 4.5);
+    assert.equal(parseFieldValue('12.50', 'number'), 12.5);
+    assert.equal(parseFieldValue('Yes', 'boolean'), true);
+    assert.equal(parseFieldValue('0', 'boolean'), false);
+
+    assert.equal(parseFieldValue('  ', 'text'), undefined);
+    assert.equal(parseFieldValue(undefined, 'text'), undefined);
+    assert.equal(parseFieldValue('n/a', 'number'), undefined);
+    assert.equal(parseFieldValue('maybe', 'boolean'), undefined);
+  });
+
+  test('formats values for the embedded text', () => {
+    assert.equal(formatFieldValue(['Rose', 'Neroli']), 'Rose, Neroli');
+    assert.equal(formatFieldValue(true), 'Yes');
+    assert.equal(formatFieldValue(4.5), '4.5');
+  });
+
+  test('rejects mappings that cannot be applied', () => {
+    assert.equal(validateFieldMapping({ column: 'Smart Collections', target: 'text' }), null);
+    assert.match(validateFieldMapping({ column: '', target: 'text' })!, /column/);
+    assert.match(validateFieldMapping({ column: 'Tags', target: 'index' as never })!, /target/);
+    assert.match(validateFieldMapping({ column: 'Tags', target: 'text', parser: 'csv' as never })!, /parser/);
+    assert.match(validateFieldMapping({ column: 'Tags', target: 'metadata', field: 'tag list' })!, /field/);
+  });
+});
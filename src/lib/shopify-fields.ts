@@ -0,0 +1,165 @@
+import type {
+  ShopifyFieldMapping,
+  ShopifyFieldParser,
+  ShopifyFieldTarget,
+  ShopifyFieldValue,
+} from '@/types';
+
+// A mapping applied to one column, with its defaults filled in
+export interface ResolvedShopifyField {
+  column: string;
+  target: ShopifyFieldTarget;
+  label: string;
+  field: string;
+  parser: ShopifyFieldParser;
+}
+
+const TARGETS: ShopifyFieldTarget[] = ['text', 'metadata', 'both', 'none'];
+const PARSERS: ShopifyFieldParser[] = ['text', 'rich-text', 'list', 'number', 'boolean', 'file-reference'];
+
+// "Metafield: custom.smells_like [multi_line_text_field]"; metafields without a namespace have no dot
+const METAFIELD_COLUMN = /^Metafield: (?:([\w-]+)\.)?([\w-]+) \[([\w.]+)\]$/;
+
+// Returns an error message if a mapping can't be applied, otherwise null
+export function validateFieldMapping(mapping: ShopifyFieldMapping): string | null {
+  if (typeof mapping?.column !== 'string' || !mapping.column) return 'column is required';
+  if (!TARGETS.includes(mapping.target)) return `target must be one of: ${TARGETS.join(', ')}`;
+  if (mapping.parser !== undefined && !PARSERS.includes(mapping.parser)) {
+    return `parser must be one of: ${PARSERS.join(', ')}`;
+  }
+  if (mapping.field !== undefined && !/^[A-Za-z_]\w*$/.test(mapping.field)) {
+    return 'field must be a name of letters, digits and underscores';
+  }
+  return null;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+function matchesColumn(pattern: string, column: string): boolean {
+  if (!pattern.includes('*')) return pattern === column;
+  return new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`).test(column);
+}
+
+// "smells_like" or "Smart Collections" -> "smellsLike" / "smartCollections"
+function toFieldName(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return words
+    .map((word, index) => (index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()))
+    .join('');
+}
+
+// The parser a metafield's type calls for
+function parserForType(type: string): ShopifyFieldParser {
+  if (type.endsWith('_reference')) return 'file-reference';
+  if (type.startsWith('list.')) return 'list';
+  if (type === 'boolean') return 'boolean';
+  if (type.startsWith('number_') || type === 'rating') return 'number';
+  if (type === 'rich_text_field') return 'rich-text';
+  return 'text';
+}
+
+// The first mapping matching the column, with defaults derived from the column; null when none does
+export function resolveField(column: string, mappings: ShopifyFieldMapping[]): ResolvedShopifyField | null {
+  const mapping = mappings.find((candidate) => matchesColumn(candidate.column, column));
+  if (!mapping) return null;
+
+  const metafield = column.match(METAFIELD_COLUMN);
+  const name = metafield ? metafield[2] : column;
+  const words = name.replace(/[_-]+/g, ' ').trim() || column;
+
+  return {
+    column,
+    target: mapping.target,
+    label: mapping.label || words[0].toUpperCase() + words.slice(1),
+    field: mapping.field || toFieldName(name),
+    parser: mapping.parser || (metafield ? parserForType(metafield[3]) : 'text'),
+  };
+}
+
+// Metadata fields declared by mappings of exact column names, and the filter kind of each
+export function mappedFilterFields(mappings: ShopifyFieldMapping[]): Record<string, 'string' | 'number' | 'boolean' | 'list'> {
+  const fields: Record<string, 'string' | 'number' | 'boolean' | 'list'> = {};
+  for (const mapping of mappings) {
+    if (mapping.column.includes('*') || (mapping.target !== 'metadata' && mapping.target !== 'both')) continue;
+    const { field, parser } = resolveField(mapping.column, [mapping])!;
+    if (fields[field]) continue;
+    if (parser === 'list' || parser === 'file-reference') fields[field] = 'list';
+    else if (parser === 'number' || parser === 'boolean') fields[field] = parser;
+    else fields[field] = 'string';
+  }
+  return fields;
+}
+
+// Text of a rich text metafield, which Shopify exports as a JSON tree of nodes
+function richTextToPlain(value: string): string {
+  const collect = (node: unknown): string[] => {
+    if (!node || typeof node !== 'object') return [];
+    const { value: text, children } = node as { value?: unknown; children?: unknown };
+    return [
+      ...(typeof text === 'string' ? [text] : []),
+      ...(Array.isArray(children) ? children.flatMap(collect) : []),
+    ];
+  };
+
+  try {
+    return collect(JSON.parse(value)).join(' ').replace(/\s+/g, ' ').trim();
+  } catch {
+    // Not JSON: treat it as HTML
+    return value.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+}
+
+// List values are exported as a JSON array, or separated by semicolons or line breaks
+function parseList(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return parsed.map(String).map((item) => item.trim()).filter(Boolean);
+  } catch {
+    // Not JSON
+  }
+  return value.split(/;|\n/).map((item) => item.trim()).filter(Boolean);
+}
+
+// Ratings are exported as {"value":"4.5","scale_min":"1.0","scale_max":"5.0"}
+function ratingValue(value: string): string {
+  try {
+    return String(JSON.parse(value).value);
+  } catch {
+    return value;
+  }
+}
+
+// The value of a cell, or undefined when it's empty or doesn't parse
+export function parseFieldValue(value: string | undefined, parser: ShopifyFieldParser): ShopifyFieldValue | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+
+  switch (parser) {
+    case 'rich-text':
+      return richTextToPlain(trimmed) || undefined;
+    case 'list':
+    case 'file-reference': {
+      const items = parseList(trimmed);
+      return items.length > 0 ? items : undefined;
+    }
+    case 'number': {
+      const number = parseFloat(trimmed.startsWith('{') ? ratingValue(trimmed) : trimmed);
+      return isNaN(number) ? undefined : number;
+    }
+    case 'boolean': {
+      const lower = trimmed.toLowerCase();
+      if (['true', 'yes', '1'].includes(lower)) return true;
+      if (['false', 'no', '0'].includes(lower)) return false;
+      return undefined;
+    }
+    default:
+      return trimmed;
+  }
+}
+
+// How a parsed value reads in the embedded text
+export function formatFieldValue(value: ShopifyFieldValue): string {
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
@@ -0,0 +1,151 @@
+import { FileUploadResponse } from '@/types';
+
+// POST a file as multipart form data, reporting upload progress as a percentage
+export function postFile(
+  url: string,
+  file: File,
+  onUploadProgress?: (percent: number) => void
+): Promise<FileUploadResponse> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onUploadProgress?.(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+
+    xhr.onload = () => {
+      try {
+        resolve(JSON.parse(xhr.responseText));
+      } catch {
+        reject(new Error(`Upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+
+    const formData = new FormData();
+    formData.append('file', file);
+    xhr.send(formData);
+  });
+}
+
+// Files at least this large go through the resumable upload routes
+export const RESUMABLE_UPLOAD_THRESHOLD = 20 * 1024 * 1024;
+
+const PART_RETRIES = 5;
+
+interface ResumableUploadStatus {
+  success: boolean;
+  uploadId: string;
+  partSize: number;
+  totalParts: number;
+  missingParts: number[];
+  message?: string;
+}
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+const sha256 = async (data: ArrayBuffer | Uint8Array): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', data as BufferSource));
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Identifies the same file across page reloads so an interrupted upload can resume
+const storageKey = (file: File) =>
+  `resumable-upload:${file.name}:${file.size}:${file.lastModified}`;
+
+async function startOrResumeUpload(file: File): Promise<ResumableUploadStatus> {
+  const savedId = localStorage.getItem(storageKey(file));
+  if (savedId) {
+    const response = await fetch(`/api/uploads/${savedId}`);
+    if (response.ok) {
+      return response.json();
+    }
+    localStorage.removeItem(storageKey(file));
+  }
+
+  const response = await fetch('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ filename: file.name, size: file.size }),
+  });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || 'Failed to start upload');
+  }
+
+  localStorage.setItem(storageKey(file), result.uploadId);
+  return {
+    ...result,
+    missingParts: Array.from({ length: result.totalParts }, (_, index) => index),
+  };
+}
+
+async function putPart(uploadId: string, index: number, body: ArrayBuffer, checksum: string) {
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | null = null;
+    try {
+      response = await fetch(`/api/uploads/${uploadId}/parts/${index}`, {
+        method: 'PUT',
+        headers: { 'X-Part-Checksum': checksum },
+        body,
+      });
+    } catch (error) {
+      // Network dropped; back off and retry the same part
+      if (attempt >= PART_RETRIES) throw error;
+    }
+
+    if (response?.ok) return;
+
+    // Client errors (bad checksum, wrong size, unknown upload) won't fix themselves
+    if (response && (response.status < 500 || attempt >= PART_RETRIES)) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.message || `Part ${index} failed with status ${response.status}`);
+    }
+
+    await sleep(Math.min(1000 * 2 ** (attempt - 1), 15000));
+  }
+}
+
+/**
+ * Upload a large file in parts through /api/uploads. Parts the server already
+ * has are skipped, so calling this again after a failure (or a page reload)
+ * picks up where the previous attempt stopped.
+ */
+export async function uploadResumable(
+  file: File,
+  onUploadProgress?: (percent: number) => void
+): Promise<FileUploadResponse> {
+  const upload = await startOrResumeUpload(file);
+  const missing = new Set(upload.missingParts);
+  const partDigests: string[] = [];
+
+  for (let index = 0; index < upload.totalParts; index++) {
+    const start = index * upload.partSize;
+    const body = await file.slice(start, start + upload.partSize).arrayBuffer();
+    const checksum = await sha256(body);
+    partDigests.push(checksum);
+
+    if (missing.has(index)) {
+      await putPart(upload.uploadId, index, body, checksum);
+    }
+    onUploadProgress?.(Math.round(((index + 1) / upload.totalParts) * 100));
+  }
+
+  const response = await fetch(`/api/uploads/${upload.uploadId}/complete`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ checksum: await sha256(new TextEncoder().encode(partDigests.join(''))) }),
+  });
+  const result: FileUploadResponse = await response.json();
+
+  if (result.success) {
+    localStorage.removeItem(storageKey(file));
+  }
+  return result;
+}
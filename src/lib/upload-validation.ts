@@ -0,0 +1,39 @@
+import { config } from '@/lib/config';
+
+// Returns an error message if the file type or size isn't accepted, otherwise null
+export function validateUpload(filename: string, size: number): string | null {
+  // Validate file type
+  const extension = filename.split('.').pop()?.toLowerCase();
+  const allowedExtensions = [
+    ...config.upload.allowedTextFormats,
+    ...config.upload.allowedAudioFormats,
+    ...config.upload.allowedVideoFormats,
+  ];
+
+  if (!extension || !allowedExtensions.includes(extension)) {
+    return `File type '${extension}' is not supported. Allowed types: ${allowedExtensions.join(
+      ', '
+    )}`;
+  }
+
+  // Determine file type and size limit
+  let maxSize = config.upload.maxFileSize;
+  let fileType = 'text';
+
+  if (config.upload.allowedVideoFormats.includes(extension)) {
+    maxSize = config.upload.maxVideoFileSize;
+    fileType = 'video';
+  } else if (config.upload.allowedAudioFormats.includes(extension)) {
+    maxSize = config.upload.maxAudioFileSize;
+    fileType = 'audio';
+  }
+
+  // Validate file size based on type
+  if (size > maxSize) {
+    return `${fileType.charAt(0).toUpperCase() + fileType.slice(1)} file size exceeds maximum allowed size of ${
+      maxSize / 1024 / 1024
+    }MB`;
+  }
+
+  return null;
+}
@@ -0,0 +1,71 @@
+import type { VectorFilter, VectorMetadata, VectorMetadataValue } from '@/services/vector-store.service';
+
+type Scalar = string | number | boolean;
+
+/**
+ * Evaluates a Pinecone-style metadata filter ($eq, $ne, $gt, $gte, $lt, $lte,
+ * $in, $nin, $exists, $and, $or) against a metadata object. Array fields match
+ * when any of their elements match, the same way Pinecone treats string lists.
+ */
+export function matchesFilter(
+  metadata: VectorMetadata | undefined,
+  filter: VectorFilter | undefined
+): boolean {
+  if (!filter) return true;
+  const data = metadata || {};
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as VectorFilter[]).every((sub) => matchesFilter(data, sub));
+    }
+    if (key === '$or') {
+      return (condition as VectorFilter[]).some((sub) => matchesFilter(data, sub));
+    }
+    return matchesCondition(data[key], condition);
+  });
+}
+
+function matchesCondition(value: VectorMetadataValue | undefined, condition: any): boolean {
+  // Shorthand equality: { field: 'value' }
+  if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+    return matchesCondition(value, { $eq: condition });
+  }
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq':
+        return anyValue(value, (v) => v === operand);
+      case '$ne':
+        return !anyValue(value, (v) => v === operand);
+      case '$gt':
+        return anyValue(value, (v) => compare(v, operand as Scalar) > 0);
+      case '$gte':
+        return anyValue(value, (v) => compare(v, operand as Scalar) >= 0);
+      case '$lt':
+        return anyValue(value, (v) => compare(v, operand as Scalar) < 0);
+      case '$lte':
+        return anyValue(value, (v) => compare(v, operand as Scalar) <= 0);
+      case '$in':
+        return anyValue(value, (v) => (operand as Scalar[]).includes(v));
+      case '$nin':
+        return !anyValue(value, (v) => (operand as Scalar[]).includes(v));
+      case '$exists':
+        return (value !== undefined) === Boolean(operand);
+      default:
+        throw new Error(`Unsupported filter operator: ${operator}`);
+    }
+  });
+}
+
+function anyValue(
+  value: VectorMetadataValue | undefined,
+  predicate: (v: Scalar) => boolean
+): boolean {
+  if (value === undefined) return false;
+  return Array.isArray(value) ? value.some(predicate) : predicate(value);
+}
+
+function compare(a: Scalar, b: Scalar): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
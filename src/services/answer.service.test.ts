@@ -0,0 +1,127 @@
+import { after, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AnswerSource } from './answer.service';
+import type { RetrievedMatch } from './retrieval.service';
+import { useTestEnvironment } from '../testing/environment';
+
+useTestEnvironment('answer');
+
+const GUIDE = `# Watering
+
+Water the lavender plants once a week during the summer months. Let the soil dry out between waterings.
+
+# Harvesting
+
+Harvest the lavender flowers in the morning, when the buds have just opened.`;
+
+const source = (number: number, id: string): AnswerSource => ({
+  number,
+  match: {
+    id,
+    score: 0.9,
+    retrievers: ['vector'],
+    content: `Text of ${id}`,
+    metadata: { documentId: `doc-${id}` },
+  } as RetrievedMatch,
+  text: `Text of ${id}`,
+});
+
+describe('answers', () => {
+  let services: typeof import('./answer.service');
+  let route: typeof import('../app/api/answer/route');
+  let documentId: string;
+
+  before(async () => {
+    mock.method(console, 'log', () => undefined);
+
+    const { getDocumentProcessingService } = await import('./document-processing.service');
+    services = await import('./answer.service');
+    route = await import('../app/api/answer/route');
+
+    const document = await getDocumentProcessingService().processFile(Buffer.from(GUIDE), 'lavender-guide.md');
+    documentId = document.id;
+  });
+
+  after(() => mock.restoreAll());
+
+  test('answers from the indexed document and cites it', async () => {
+    const result = await services.getAnswerService().answer('How often should I water lavender plants?');
+
+    assert.equal(result.answered, true);
+    assert.match(result.answer, /once a week/);
+    assert.match(result.answer, /\[1\]/);
+    assert.ok(result.citations.length > 0);
+    assert.equal(result.citations[0].number, 1);
+    assert.equal(result.citations[0].documentId, documentId);
+    assert.equal(result.citations[0].filename, 'lavender-guide.md');
+  });
+
+  test("says it doesn't know when nothing relevant is indexed", async () => {
+    const result = await services.getAnswerService().answer('Which espresso grinder suits a small kitchen?');
+
+    assert.equal(result.answered, false);
+    assert.equal(result.answer, services.NO_ANSWER);
+    assert.deepEqual(result.citations, []);
+  });
+
+  test("says it doesn't know when the question only shares a word with the indexed text", async () => {
+    const result = await services.getAnswerService().answer('Can I feed lavender to my rabbit?');
+
+    assert.equal(result.answered, false);
+    assert.deepEqual(result.citations, []);
+  });
+
+  test('only lists the sources the model cited', () => {
+    const result = services.getAnswerService().toResult('It blooms in June [2].', [source(1, 'a'), source(2, 'b')]);
+
+    assert.deepEqual(result.citations.map((citation) => citation.chunkId), ['b']);
+  });
+
+  test("treats every spelling of I don't know as no answer", () => {
+    for (const reply of ["I don't know.", 'I dont know', 'I don’t know.', 'i DON‘T know that']) {
+      const result = services.getAnswerService().toResult(reply, [source(1, 'a')]);
+      assert.equal(result.answered, false, reply);
+      assert.deepEqual(result.citations, [], reply);
+    }
+  });
+
+  test('the route rejects bodies that are not JSON objects', async () => {
+    const { NextRequest } = await import('next/server');
+    for (const body of ['null', '[]', '"lavender"', 'not json']) {
+      const response = await route.POST(
+        new NextRequest('http://localhost/api/answer', { method: 'POST', body })
+      );
+      assert.equal(response.status, 400, body);
+    }
+  });
+
+  test('the route rejects a topK out of range', async () => {
+    const { NextRequest } = await import('next/server');
+    for (const topK of [0, 2.5, '8', 51]) {
+      const response = await route.POST(
+        new NextRequest('http://localhost/api/answer', {
+          method: 'POST',
+          body: JSON.stringify({ question: 'When should I harvest lavender flowers?', topK }),
+        })
+      );
+      assert.equal(response.status, 400, String(topK));
+    }
+  });
+
+  test('the route returns the answer with its citations', async () => {
+    const { NextRequest } = await import('next/server');
+    const response = await route.POST(
+      new NextRequest('http://localhost/api/answer', {
+        method: 'POST',
+        body: JSON.stringify({ question: 'When should I harvest lavender flowers?' }),
+      })
+    );
+    const result = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(result.success, true);
+    assert.equal(result.answered, true);
+    assert.match(result.answer, /morning/);
+    assert.equal(result.citations[0].documentId, documentId);
+  });
+});
@@ -0,0 +1,168 @@
+import { config } from '@/lib/config';
+import { describeSource } from '@/lib/citation';
+import { AnswerResult, ChatMessage, Citation, ExpandedQuery, QueryMode } from '@/types';
+import { getLLMProvider } from './llm-provider.service';
+import { getQueryExpansionService } from './query-expansion.service';
+import { RerankOptions } from './rerank.service';
+import { getRetrievalService, RetrievedMatch } from './retrieval.service';
+
+export interface AnswerOptions {
+  topK?: number;
+  prioritizeProducts?: boolean;
+  lexicalWeight?: number;
+  rerank?: RerankOptions;
+  rankingPolicy?: string;
+  queryMode?: QueryMode;
+}
+
+// A retrieved chunk given to the model as source [number]
+export interface AnswerSource {
+  number: number;
+  match: RetrievedMatch;
+  text: string;
+}
+
+export interface RetrievedSources {
+  sources: AnswerSource[];
+  // What was searched for, when the query was expanded (multi-query or HyDE)
+  expandedQueries?: ExpandedQuery[];
+}
+
+export const NO_ANSWER = "I don't know.";
+
+const SYSTEM_PROMPT = `You answer questions using only the numbered sources provided.
+- Cite every statement with the number of the source it comes from, like [1] or [2][3].
+- Do not use knowledge that is not in the sources.
+- If the sources do not contain the answer, reply exactly: ${NO_ANSWER}`;
+
+/**
+ * Retrieval-augmented answers: finds the chunks most similar to the question,
+ * hands them to the LLM provider as numbered sources and maps the numbers the
+ * model cites back to documents.
+ */
+export class AnswerService {
+  private retrievalService = getRetrievalService();
+  private queryExpansionService = getQueryExpansionService();
+
+  private get llmProvider() {
+    return getLLMProvider();
+  }
+
+  async answer(question: string, options: AnswerOptions = {}): Promise<AnswerResult> {
+    const { sources, expandedQueries } = await this.retrieveSources(question, options);
+    if (sources.length === 0) {
+      console.log(`No sources above the relevance thresholds for: ${question}`);
+      return { answer: NO_ANSWER, answered: false, citations: [], ...(expandedQueries && { expandedQueries }) };
+    }
+
+    const response = await this.llmProvider.complete(this.buildMessages(question, sources));
+    return { ...this.toResult(response, sources), ...(expandedQueries && { expandedQueries }) };
+  }
+
+  // Relevant chunks for a query, numbered and trimmed to the context budget
+  async retrieveSources(query: string, options: AnswerOptions = {}): Promise<RetrievedSources> {
+    const {
+      topK = config.answer.topK,
+      prioritizeProducts = false,
+      lexicalWeight,
+      rerank,
+      rankingPolicy,
+      queryMode = config.queryExpansion.defaultMode,
+    } = options;
+
+    const { embedding, expansions, expandedQueries } = await this.queryExpansionService.prepare(query, queryMode);
+    const matches = await this.retrievalService.queryWithProductPriority(
+      embedding,
+      topK,
+      prioritizeProducts,
+      { query, lexicalWeight, rerank, rankingPolicy, expansions }
+    );
+
+    const sources: AnswerSource[] = [];
+    let budget = config.answer.maxContextChars;
+    for (const match of matches) {
+      // Similar enough in meaning, or sharing enough of the question's (rarer) terms
+      const relevant =
+        (match.vectorScore !== undefined && match.vectorScore >= config.answer.minScore) ||
+        (match.lexicalScore !== undefined && match.lexicalScore >= config.answer.minKeywordScore);
+      if (!relevant || !match.content || budget <= 0) continue;
+
+      const text = match.content.slice(0, budget);
+      budget -= text.length;
+      sources.push({ number: sources.length + 1, match, text });
+    }
+
+    return { sources, ...(queryMode !== 'standard' && { expandedQueries }) };
+  }
+
+  buildMessages(question: string, sources: AnswerSource[], history: ChatMessage[] = []): ChatMessage[] {
+    const context = sources
+      .map((source) => `[${source.number}] ${this.describe(source)}\n${source.text}`)
+      .join('\n\n');
+
+    return [
+      { role: 'system', content: SYSTEM_PROMPT },
+      ...history,
+      { role: 'user', content: `Sources:\n\n${context}\n\nQuestion: ${question}` },
+    ];
+  }
+
+  // Turn the model's reply into an answer with the sources it actually cited
+  toResult(response: string, sources: AnswerSource[]): AnswerResult {
+    const answer = response.trim();
+    // Models also write the apostrophe as a typographic one (’)
+    if (!answer || /^i don'?t know\b/i.test(answer.replace(/[\u2018\u2019\u02bc]/g, "'"))) {
+      return { answer: NO_ANSWER, answered: false, citations: [] };
+    }
+
+    const cited = new Set<number>();
+    for (const [, numbers] of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+      numbers.split(',').forEach((number) => cited.add(Number(number.trim())));
+    }
+
+    // An answer without markers still came from the sources, so list them all
+    const citedSources = sources.filter((source) => cited.has(source.number));
+    const citations = (citedSources.length > 0 ? citedSources : sources).map((source) =>
+      this.toCitation(source)
+    );
+
+    return { answer, answered: true, citations };
+  }
+
+  private toCitation({ number, match, text }: AnswerSource): Citation {
+    const metadata = match.metadata || {};
+
+    return {
+      number,
+      chunkId: match.id,
+      documentId: (metadata.documentId as string) || match.id,
+      ...(metadata.filename && { filename: metadata.filename as string }),
+      ...(metadata.productTitle && { title: metadata.productTitle as string }),
+      ...(!metadata.productTitle && metadata.section && { title: metadata.section as string }),
+      ...(metadata.url && { url: metadata.url as string }),
+      ...(describeSource(metadata) && { location: describeSource(metadata) }),
+      score: match.score,
+      snippet: text.length > 200 ? `${text.slice(0, 200)}...` : text,
+    };
+  }
+
+  private describe({ match }: AnswerSource): string {
+    const metadata = match.metadata || {};
+    const parts = [
+      metadata.productTitle || describeSource(metadata),
+      metadata.section,
+      metadata.url,
+    ].filter(Boolean);
+    return parts.join(' | ') || match.id;
+  }
+}
+
+// Singleton instance
+let answerService: AnswerService | null = null;
+
+export const getAnswerService = (): AnswerService => {
+  if (!answerService) {
+    answerService = new AnswerService();
+  }
+  return answerService;
+};
@@ -0,0 +1,53 @@
+import path from 'path';
+import { config, DATA_DIR } from '@/lib/config';
+import { JsonFileStore } from '@/lib/json-file-store';
+import { ChatSession, ChatSessionMessage } from '@/types';
+
+/**
+ * Conversation history persisted by session id, so a client can resume a chat
+ * by sending only its session id and the next message.
+ */
+export class ChatSessionService {
+  private store = new JsonFileStore<Record<string, ChatSession>>(
+    path.join(DATA_DIR, 'chat-sessions.json'),
+    () => ({})
+  );
+
+  async get(id: string): Promise<ChatSession | null> {
+    const data = await this.store.read();
+    return Object.hasOwn(data, id) ? data[id] : null;
+  }
+
+  // Append messages to a session, creating it on first use
+  async append(id: string, messages: ChatSessionMessage[]): Promise<ChatSession> {
+    return this.store.update((data) => {
+      const now = new Date().toISOString();
+      const session = Object.hasOwn(data, id) ? data[id] : { id, messages: [], createdAt: now, updatedAt: now };
+
+      session.messages = [...session.messages, ...messages].slice(-config.chat.maxStoredMessages);
+      session.updatedAt = now;
+      // defineProperty, since assigning to "__proto__" would replace the object's prototype instead
+      Object.defineProperty(data, id, { value: session, enumerable: true, writable: true, configurable: true });
+
+      return session;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.update((data) => {
+      if (!Object.hasOwn(data, id)) return false;
+      delete data[id];
+      return true;
+    });
+  }
+}
+
+// Singleton instance
+let chatSessionService: ChatSessionService | null = null;
+
+export const getChatSessionService = (): ChatSessionService => {
+  if (!chatSessionService) {
+    chatSessionService = new ChatSessionService();
+  }
+  return chatSessionService;
+};
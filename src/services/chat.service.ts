@@ -0,0 +1,135 @@
+import { config } from '@/lib/config';
+import { ChatMessage, Citation, ExpandedQuery, QueryMode } from '@/types';
+import { getAnswerService, NO_ANSWER } from './answer.service';
+import { getChatSessionService } from './chat-session.service';
+import { getLLMProvider } from './llm-provider.service';
+import { RerankOptions } from './rerank.service';
+
+export interface ChatRequest {
+  message: string;
+  // Earlier turns; when omitted they are loaded from the session
+  history?: ChatMessage[];
+  sessionId?: string;
+  topK?: number;
+  prioritizeProducts?: boolean;
+  lexicalWeight?: number;
+  rerank?: RerankOptions;
+  rankingPolicy?: string;
+  queryMode?: QueryMode;
+}
+
+export type ChatEvent =
+  | { type: 'session'; sessionId?: string; query: string }
+  | { type: 'token'; content: string }
+  | { type: 'citations'; answered: boolean; citations: Citation[]; expandedQueries?: ExpandedQuery[] };
+
+const REWRITE_PROMPT = `Rewrite the user's follow-up as a standalone search query for a product and document catalogue.
+- Resolve pronouns and references ("it", "that one", "the cheaper one") using the conversation.
+- Keep product names, sizes, colours and other specifics.
+- Reply with the query only, without quotes or explanation.`;
+
+const MAX_QUERY_LENGTH = 500;
+
+/**
+ * Multi-turn chat over the indexed content. Each turn rewrites the follow-up
+ * into a standalone query, retrieves sources for it (products first) and
+ * streams a cited answer.
+ */
+export class ChatService {
+  private answerService = getAnswerService();
+  private sessionService = getChatSessionService();
+
+  private get llmProvider() {
+    return getLLMProvider();
+  }
+
+  async *chat(request: ChatRequest): AsyncGenerator<ChatEvent> {
+    const { message, sessionId, topK, prioritizeProducts = true, lexicalWeight, rerank, rankingPolicy, queryMode } =
+      request;
+
+    const history = (request.history ?? (await this.loadHistory(sessionId))).slice(
+      -config.chat.historyMessages
+    );
+    const query = await this.rewriteQuery(message, history);
+    yield { type: 'session', ...(sessionId && { sessionId }), query };
+
+    const { sources, expandedQueries } = await this.answerService.retrieveSources(query, {
+      topK,
+      prioritizeProducts,
+      lexicalWeight,
+      rerank,
+      rankingPolicy,
+      queryMode,
+    });
+
+    let response = '';
+    if (sources.length === 0) {
+      console.log(`No sources above the relevance thresholds for: ${query}`);
+      response = NO_ANSWER;
+      yield { type: 'token', content: response };
+    } else {
+      // The model sees the original wording, retrieval used the standalone query
+      const messages = this.answerService.buildMessages(message, sources, history);
+      for await (const token of this.llmProvider.stream(messages)) {
+        response += token;
+        yield { type: 'token', content: token };
+      }
+    }
+
+    const result = this.answerService.toResult(response, sources);
+    yield {
+      type: 'citations',
+      answered: result.answered,
+      citations: result.citations,
+      ...(expandedQueries && { expandedQueries }),
+    };
+
+    if (sessionId) {
+      const createdAt = new Date().toISOString();
+      await this.sessionService.append(sessionId, [
+        { role: 'user', content: message, createdAt },
+        { role: 'assistant', content: result.answer, citations: result.citations, createdAt },
+      ]);
+    }
+  }
+
+  // A follow-up like "is it waterproof?" is useless for retrieval on its own
+  async rewriteQuery(message: string, history: ChatMessage[]): Promise<string> {
+    const turns = history.filter((turn) => turn.role !== 'system');
+    if (turns.length === 0) return message;
+
+    try {
+      const conversation = turns.map((turn) => `${turn.role}: ${turn.content}`).join('\n');
+      const rewritten = await this.llmProvider.complete(
+        [
+          { role: 'system', content: REWRITE_PROMPT },
+          { role: 'user', content: `Conversation:\n${conversation}\n\nFollow-up: ${message}` },
+        ],
+        { temperature: 0 }
+      );
+
+      const query = rewritten.trim().replace(/^["']|["']$/g, '');
+      return query && query.length <= MAX_QUERY_LENGTH ? query : message;
+    } catch (error) {
+      console.error('Error rewriting follow-up, retrieving with the original message:', error);
+      return message;
+    }
+  }
+
+  private async loadHistory(sessionId?: string): Promise<ChatMessage[]> {
+    if (!sessionId) return [];
+
+    const session = await this.sessionService.get(sessionId);
+    return (session?.messages || []).map(({ role, content }) => ({ role, content }));
+  }
+}
+
+// Singleton instance
+let chatService: ChatService | null = null;
+
+export const getChatService = (): ChatService => {
+  if (!chatService) {
+    chatService = new ChatService();
+  }
+  return chatService;
+};
@@ -0,0 +1,77 @@
+import path from 'path';
+import { config, DATA_DIR } from '@/lib/config';
+import { JsonFileStore } from '@/lib/json-file-store';
+
+// Full text of an embedded chunk, keyed by its vector id
+export interface StoredChunk {
+  id: string;
+  documentId: string;
+  filename: string;
+  content: string;
+}
+
+export interface ChunkStore {
+  put(chunks: StoredChunk[]): Promise<void>;
+  get(ids: string[]): Promise<Map<string, StoredChunk>>;
+  list(): Promise<StoredChunk[]>;
+  delete(ids: string[]): Promise<void>;
+}
+
+/**
+ * Keeps chunk text out of vector metadata (which has tight size limits) in a
+ * JSON file next to the other local data.
+ */
+export class FileChunkStore implements ChunkStore {
+  private store: JsonFileStore<Record<string, StoredChunk>>;
+
+  constructor(filePath: string = config.chunkStore.path || path.join(DATA_DIR, 'chunks.json')) {
+    this.store = new JsonFileStore<Record<string, StoredChunk>>(filePath, () => ({}));
+  }
+
+  async put(chunks: StoredChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+
+    await this.store.update((data) => {
+      for (const chunk of chunks) {
+        data[chunk.id] = chunk;
+      }
+    });
+  }
+
+  async get(ids: string[]): Promise<Map<string, StoredChunk>> {
+    const data = await this.store.read();
+    const chunks = new Map<string, StoredChunk>();
+
+    for (const id of ids) {
+      if (data[id]) {
+        chunks.set(id, data[id]);
+      }
+    }
+
+    return chunks;
+  }
+
+  async list(): Promise<StoredChunk[]> {
+    return Object.values(await this.store.read());
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.store.update((data) => {
+      for (const id of ids) {
+        delete data[id];
+      }
+    });
+  }
+}
+
+// Singleton instance
+let chunkStore: ChunkStore | null = null;
+
+export const getChunkStore = (): ChunkStore => {
+  if (!chunkStore) {
+    chunkStore = new FileChunkStore();
+  }
+  return chunkStore;
+};
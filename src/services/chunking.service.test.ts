@@ -0,0 +1,132 @@
+import { before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100k from 'js-tiktoken/ranks/cl100k_base';
+import type { TextChunk } from './chunking.service';
+import { useTestEnvironment } from '../testing/environment';
+
+useTestEnvironment('chunking');
+
+const PROSE = `Lavender grows best in full sun. It needs well-drained soil and little water.
+
+Prune the plants after flowering, cutting back about a third of the growth. Never cut into old wood!
+
+Harvest the flowers in the morning; dry them upside down in a dark, airy room.`;
+
+// Every chunk is exactly the text between its offsets, with no surrounding whitespace
+function assertOffsets(text: string, chunks: TextChunk[]) {
+  assert.ok(chunks.length > 0);
+  for (const chunk of chunks) {
+    assert.equal(chunk.content, text.slice(chunk.start, chunk.end));
+  }
+}
+
+describe('chunking', () => {
+  let chunking: typeof import('./chunking.service');
+
+  before(async () => {
+    mock.method(console, 'log', () => undefined);
+    chunking = await import('./chunking.service');
+  });
+
+  test('fixed windows share exactly chunkOverlap characters', () => {
+    const text = 'abcdefghij'.repeat(10);
+    const chunks = new chunking.FixedSizeChunker().split(text, { strategy: 'fixed', chunkSize: 30, chunkOverlap: 5 });
+
+    assertOffsets(text, chunks);
+    assert.deepEqual(
+      chunks.map((chunk) => [chunk.start, chunk.end]),
+      [[0, 30], [25, 55], [50, 80], [75, 100]]
+    );
+  });
+
+  test('recursive chunks break at paragraphs, then sentences, to stay under chunkSize', () => {
+    const chunks = new chunking.RecursiveChunker().split(PROSE, { strategy: 'recursive', chunkSize: 90, chunkOverlap: 0 });
+
+    assertOffsets(PROSE, chunks);
+    assert.deepEqual(
+      chunks.map((chunk) => chunk.content),
+      [
+        'Lavender grows best in full sun. It needs well-drained soil and little water.',
+        'Prune the plants after flowering, cutting back about a third of the growth.',
+        'Never cut into old wood!',
+        'Harvest the flowers in the morning; dry them upside down in a dark, airy room.',
+      ]
+    );
+  });
+
+  test('recursive chunks repeat trailing pieces as overlap', () => {
+    const text = 'One two three. Four five six. Seven eight nine. Ten eleven twelve.';
+    const chunks = new chunking.RecursiveChunker().split(text, { strategy: 'recursive', chunkSize: 40, chunkOverlap: 18 });
+
+    assertOffsets(text, chunks);
+    assert.deepEqual(
+      chunks.map((chunk) => chunk.content),
+      ['One two three. Four five six.', 'Four five six. Seven eight nine.', 'Seven eight nine. Ten eleven twelve.']
+    );
+  });
+
+  test('markdown chunks follow sections and record their heading path', () => {
+    const text = `Intro line.
+
+# Care
+
+## Watering
+
+Water weekly.
+
+\`\`\`
+# not a heading
+\`\`\`
+
+## Pruning
+
+Prune after flowering.
+
+# Harvest
+
+Pick in the morning.`;
+    const chunks = new chunking.MarkdownChunker().split(text, { strategy: 'markdown', chunkSize: 60, chunkOverlap: 0 });
+
+    assertOffsets(text, chunks);
+    assert.deepEqual(
+      chunks.map((chunk) => chunk.section),
+      [undefined, 'Care > Watering', 'Care > Pruning', 'Harvest']
+    );
+    assert.match(chunks[1].content, /# not a heading/);
+  });
+
+  test('token windows hold at most chunkSize tokens and map back to character offsets', () => {
+    const encoder = new Tiktoken(cl100k);
+    const text = `${PROSE} Café crème, naïve façade — 🌸🌼 ${PROSE}`;
+    const chunks = new chunking.TokenChunker(encoder).split(text, { strategy: 'token', chunkSize: 20, chunkOverlap: 4 });
+
+    assertOffsets(text, chunks);
+    // A boundary inside a split emoji moves to the next token, so a window may hold one more
+    assert.ok(chunks.every((chunk) => encoder.encode(chunk.content).length <= 21));
+    assert.equal(chunks[0].start, 0);
+    assert.equal(chunks[chunks.length - 1].end, text.length);
+    for (let index = 1; index < chunks.length; index++) {
+      assert.ok(chunks[index].start < chunks[index - 1].end, 'consecutive windows overlap');
+    }
+  });
+
+  test('splits chunks longer than the provider input limit, keeping offsets in the whole text', async () => {
+    const text = `# Care\n\n${PROSE}`;
+    const chunks = await chunking
+      .getChunkingService()
+      .chunk(text, { strategy: 'markdown', chunkSize: 1000, chunkOverlap: 0 }, 100);
+
+    assertOffsets(text, chunks);
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every((chunk) => chunk.content.length <= 100 && chunk.section === 'Care'));
+  });
+
+  test('options come from the source, then the file extension', () => {
+    const service = chunking.getChunkingService();
+
+    assert.equal(service.optionsFor('MD', 'text').strategy, 'markdown');
+    assert.equal(service.optionsFor('csv').chunkOverlap, 0);
+    assert.equal(service.optionsFor('txt', 'text').strategy, 'token');
+  });
+});
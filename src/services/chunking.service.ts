@@ -0,0 +1,380 @@
+import { Tiktoken, TiktokenModel, getEncodingNameForModel } from 'js-tiktoken/lite';
+import { ChunkingOptions, ChunkingStrategyName } from '@/types';
+import { config } from '@/lib/config';
+import { getEmbeddingProvider } from './embedding-provider.service';
+
+// A piece of a document; content is always text.slice(start, end)
+export interface TextChunk {
+  content: string;
+  start: number;
+  end: number;
+  section?: string;
+}
+
+export interface ChunkingStrategy {
+  readonly name: ChunkingStrategyName;
+  split(text: string, options: ChunkingOptions): TextChunk[];
+}
+
+type Span = [number, number];
+
+// Narrow a span to exclude surrounding whitespace; null if nothing is left
+function trimSpan(text: string, start: number, end: number): Span | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? [start, end] : null;
+}
+
+function toChunk(text: string, start: number, end: number, section?: string): TextChunk | null {
+  const span = trimSpan(text, start, end);
+  if (!span) return null;
+
+  return {
+    content: text.slice(span[0], span[1]),
+    start: span[0],
+    end: span[1],
+    ...(section && { section }),
+  };
+}
+
+// Don't cut a surrogate pair in half
+function safeCut(text: string, index: number): number {
+  const code = text.charCodeAt(index - 1);
+  return code >= 0xd800 && code <= 0xdbff ? index - 1 : index;
+}
+
+/**
+ * Fixed-size character windows. Consecutive chunks share exactly
+ * `chunkOverlap` characters.
+ */
+export class FixedSizeChunker implements ChunkingStrategy {
+  readonly name = 'fixed';
+
+  split(text: string, { chunkSize, chunkOverlap }: ChunkingOptions): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    let start = 0;
+
+    while (start < text.length) {
+      const end = text.length - start <= chunkSize ? text.length : safeCut(text, start + chunkSize);
+      if (text.slice(start, end).trim()) {
+        chunks.push({ content: text.slice(start, end), start, end });
+      }
+      if (end >= text.length) break;
+
+      const next = end - Math.min(chunkOverlap, chunkSize - 1);
+      start = next > start ? next : end;
+    }
+
+    return chunks;
+  }
+}
+
+/**
+ * Splits on the coarsest separator that yields pieces under `chunkSize`
+ * (paragraphs, then lines, sentences, clauses and words), then packs the
+ * pieces back into chunks, repeating trailing pieces as overlap.
+ */
+export class RecursiveChunker implements ChunkingStrategy {
+  readonly name: ChunkingStrategyName = 'recursive';
+
+  private static readonly SEPARATORS = ['\n\n', '\n', '. ', '! ', '? ', '; ', ', ', ' '];
+
+  split(text: string, options: ChunkingOptions): TextChunk[] {
+    return this.splitRange(text, 0, text.length, options);
+  }
+
+  protected splitRange(
+    text: string,
+    start: number,
+    end: number,
+    { chunkSize, chunkOverlap }: ChunkingOptions,
+    section?: string
+  ): TextChunk[] {
+    const spans = this.splitSpan(text, start, end, chunkSize, 0);
+    return this.mergeSpans(text, spans, chunkSize, chunkOverlap, section);
+  }
+
+  private splitSpan(text: string, start: number, end: number, size: number, level: number): Span[] {
+    if (end - start <= size) return [[start, end]];
+
+    const separator = RecursiveChunker.SEPARATORS[level];
+    if (separator === undefined) {
+      // No separator left: cut at the size limit
+      const spans: Span[] = [];
+      for (let from = start; from < end; ) {
+        const to = end - from <= size ? end : safeCut(text, from + size);
+        spans.push([from, to]);
+        from = to;
+      }
+      return spans;
+    }
+
+    // Keep each separator attached to the piece before it so no text is lost
+    const pieces: Span[] = [];
+    let pieceStart = start;
+    let index = text.indexOf(separator, start);
+    while (index !== -1 && index + separator.length <= end) {
+      pieces.push([pieceStart, index + separator.length]);
+      pieceStart = index + separator.length;
+      index = text.indexOf(separator, pieceStart);
+    }
+    if (pieceStart < end) pieces.push([pieceStart, end]);
+
+    if (pieces.length === 1) {
+      return this.splitSpan(text, start, end, size, level + 1);
+    }
+
+    return pieces.flatMap(([from, to]) =>
+      to - from > size ? this.splitSpan(text, from, to, size, level + 1) : [[from, to] as Span]
+    );
+  }
+
+  private mergeSpans(
+    text: string,
+    spans: Span[],
+    size: number,
+    overlap: number,
+    section?: string
+  ): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    const window: Span[] = [];
+    let length = 0;
+
+    const emit = () => {
+      const chunk = toChunk(text, window[0][0], window[window.length - 1][1], section);
+      if (chunk) chunks.push(chunk);
+    };
+
+    for (const span of spans) {
+      const spanLength = span[1] - span[0];
+
+      if (window.length > 0 && length + spanLength > size) {
+        emit();
+        // Carry the tail of this chunk into the next one
+        while (window.length > 0 && (length > overlap || length + spanLength > size)) {
+          const dropped = window.shift()!;
+          length -= dropped[1] - dropped[0];
+        }
+      }
+
+      window.push(span);
+      length += spanLength;
+    }
+    if (window.length > 0) emit();
+
+    return chunks;
+  }
+}
+
+/**
+ * Splits Markdown (and the `#` headings produced for PDF and Word files) into
+ * sections, packs small neighbouring sections together and splits oversized
+ * ones recursively. Every chunk records the heading path it starts under.
+ */
+export class MarkdownChunker extends RecursiveChunker {
+  readonly name: ChunkingStrategyName = 'markdown';
+
+  split(text: string, options: ChunkingOptions): TextChunk[] {
+    const sections = this.findSections(text);
+    const chunks: TextChunk[] = [];
+
+    // Pack consecutive sections while they fit in one chunk
+    let groupStart = 0;
+    while (groupStart < sections.length) {
+      let groupEnd = groupStart;
+      while (
+        groupEnd + 1 < sections.length &&
+        sections[groupEnd + 1].end - sections[groupStart].start <= options.chunkSize
+      ) {
+        groupEnd++;
+      }
+
+      const { start, path } = sections[groupStart];
+      const { end } = sections[groupEnd];
+      if (end - start <= options.chunkSize) {
+        const chunk = toChunk(text, start, end, path);
+        if (chunk) chunks.push(chunk);
+      } else {
+        chunks.push(...this.splitRange(text, start, end, options, path));
+      }
+      groupStart = groupEnd + 1;
+    }
+
+    return chunks;
+  }
+
+  private findSections(text: string): Array<{ start: number; end: number; path?: string }> {
+    const headings: Array<{ offset: number; path: string }> = [];
+    const stack: Array<{ level: number; title: string }> = [];
+    let inFence = false;
+    let offset = 0;
+
+    for (const line of text.split('\n')) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+      } else if (!inFence) {
+        const match = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+        if (match) {
+          const level = match[1].length;
+          while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+          stack.push({ level, title: match[2] });
+          headings.push({ offset, path: stack.map((heading) => heading.title).join(' > ') });
+        }
+      }
+      offset += line.length + 1;
+    }
+
+    const sections: Array<{ start: number; end: number; path?: string }> = [];
+    if (headings.length === 0 || headings[0].offset > 0) {
+      sections.push({ start: 0, end: headings[0]?.offset ?? text.length });
+    }
+    headings.forEach((heading, index) => {
+      sections.push({
+        start: heading.offset,
+        end: headings[index + 1]?.offset ?? text.length,
+        path: heading.path,
+      });
+    });
+
+    return sections;
+  }
+}
+
+/**
+ * Windows of `chunkSize` tokens, counted with the embedding model's tokenizer,
+ * overlapping by `chunkOverlap` tokens.
+ */
+export class TokenChunker implements ChunkingStrategy {
+  readonly name = 'token';
+
+  constructor(private readonly encoder: Tiktoken) {}
+
+  split(text: string, { chunkSize, chunkOverlap }: ChunkingOptions): TextChunk[] {
+    const tokens = this.encoder.encode(text);
+    if (tokens.length === 0) return [];
+
+    // A boundary may not fall inside a multi-byte character split across tokens
+    const snap = (index: number) => {
+      while (index < tokens.length && this.encoder.decode([tokens[index]]).startsWith('�')) {
+        index++;
+      }
+      return index;
+    };
+
+    const windows: Span[] = [];
+    let start = 0;
+    while (start < tokens.length) {
+      const end = snap(Math.min(start + chunkSize, tokens.length));
+      windows.push([start, end]);
+      if (end >= tokens.length) break;
+
+      const next = snap(end - Math.min(chunkOverlap, chunkSize - 1));
+      start = next > start ? next : end;
+    }
+
+    // Convert token boundaries to character offsets, decoding each stretch once
+    const boundaries = [...new Set(windows.flat())].sort((a, b) => a - b);
+    const offsets = new Map<number, number>([[0, 0]]);
+    let previous = 0;
+    for (const boundary of boundaries) {
+      if (boundary === 0) continue;
+      const length = this.encoder.decode(tokens.slice(previous, boundary)).length;
+      offsets.set(boundary, offsets.get(previous)! + length);
+      previous = boundary;
+    }
+
+    return windows
+      .map(([from, to]) => toChunk(text, offsets.get(from)!, Math.min(offsets.get(to)!, text.length)))
+      .filter((chunk): chunk is TextChunk => chunk !== null);
+  }
+}
+
+/**
+ * Picks and runs a chunking strategy. Options come from `config.chunking`,
+ * overridden per file extension or document source.
+ */
+export class ChunkingService {
+  private embeddingProvider = getEmbeddingProvider();
+  private tokenChunker: TokenChunker | null = null;
+  private strategies: Partial<Record<ChunkingStrategyName, ChunkingStrategy>> = {
+    fixed: new FixedSizeChunker(),
+    recursive: new RecursiveChunker(),
+    markdown: new MarkdownChunker(),
+  };
+
+  optionsFor(format?: string, source?: string): ChunkingOptions {
+    const { default: defaults, overrides } = config.chunking;
+    return {
+      ...defaults,
+      ...(source && overrides[source]),
+      ...(format && overrides[format.toLowerCase()]),
+    };
+  }
+
+  // Chunks longer than maxChars are split again so the embedding provider never truncates them
+  async chunk(text: string, options: ChunkingOptions, maxChars?: number): Promise<TextChunk[]> {
+    const strategy = await this.getStrategy(options.strategy);
+    const chunks = strategy.split(text, options);
+
+    const result = maxChars
+      ? chunks.flatMap((chunk) => {
+          if (chunk.content.length <= maxChars) return [chunk];
+          return this.strategies.recursive!
+            .split(chunk.content, { strategy: 'recursive', chunkSize: maxChars, chunkOverlap: 0 })
+            .map((piece) => ({
+              ...piece,
+              start: chunk.start + piece.start,
+              end: chunk.start + piece.end,
+              ...(chunk.section && { section: chunk.section }),
+            }));
+        })
+      : chunks;
+
+    console.log(
+      `Split text into ${result.length} chunks with the ${strategy.name} strategy (size ${options.chunkSize}, overlap ${options.chunkOverlap})`
+    );
+    return result;
+  }
+
+  private async getStrategy(name: ChunkingStrategyName): Promise<ChunkingStrategy> {
+    if (name === 'token') {
+      if (!this.tokenChunker) {
+        this.tokenChunker = new TokenChunker(await this.loadEncoder());
+      }
+      return this.tokenChunker;
+    }
+
+    const strategy = this.strategies[name];
+    if (!strategy) {
+      throw new Error(`Unknown chunking strategy: ${name}`);
+    }
+    return strategy;
+  }
+
+  private async loadEncoder(): Promise<Tiktoken> {
+    const { model } = this.embeddingProvider;
+    let encoding: string;
+    try {
+      encoding = getEncodingNameForModel(model as TiktokenModel);
+    } catch {
+      // Non-OpenAI models: cl100k_base is a close enough approximation for sizing
+      console.log(`No tokenizer known for ${model}, counting tokens with cl100k_base`);
+      encoding = 'cl100k_base';
+    }
+
+    const ranks = encoding === 'o200k_base'
+      ? (await import('js-tiktoken/ranks/o200k_base')).default
+      : (await import('js-tiktoken/ranks/cl100k_base')).default;
+    return new Tiktoken(ranks);
+  }
+}
+
+// Singleton instance
+let chunkingService: ChunkingService | null = null;
+
+export const getChunkingService = (): ChunkingService => {
+  if (!chunkingService) {
+    chunkingService = new ChunkingService();
+  }
+  return chunkingService;
+};
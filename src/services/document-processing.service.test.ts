@@ -0,0 +1,101 @@
+import { after, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { JsonFileStore } from '../lib/json-file-store';
+import { useTestEnvironment } from '../testing/environment';
+
+useTestEnvironment('processing', {
+  EMBEDDING_BATCH_SIZE: '2',
+  // One chunk per section of the guides below
+  CHUNKING_OVERRIDES: JSON.stringify({ md: { strategy: 'markdown', chunkSize: 150, chunkOverlap: 0 } }),
+});
+
+const section = (title: string, text: string) =>
+  `# ${title}\n\n${text} Keep the plant in bright, indirect light and away from cold draughts.`;
+const WATERING = section('Watering', 'Water the fern when the top of the soil feels dry.');
+const FEEDING = section('Feeding', 'Feed the fern once a month in spring and summer.');
+const REPOTTING = section('Repotting', 'Repot the fern every second spring.');
+const PESTS = section('Pests', 'Check the fronds for scale insects every week.');
+const guide = (...sections: string[]) => Buffer.from(sections.join('\n\n'));
+
+describe('document processing', () => {
+  let processing: import('./document-processing.service').DocumentProcessingService;
+  let vectorStore: import('./vector-store.service').VectorStore;
+  let embeddingProvider: import('./embedding-provider.service').EmbeddingProvider;
+
+  before(async () => {
+    mock.method(console, 'log', () => undefined);
+    embeddingProvider = (await import('./embedding-provider.service')).getEmbeddingProvider();
+    vectorStore = (await import('./vector-store.service')).getVectorStore();
+    processing = (await import('./document-processing.service')).getDocumentProcessingService();
+  });
+
+  // The texts sent to the embedding provider while `run` runs
+  const embedded = async (run: () => Promise<unknown>) => {
+    const calls = mock.method(embeddingProvider, 'createEmbeddings');
+    await run();
+    calls.mock.restore();
+    return calls.mock.calls.flatMap((call) => call.arguments[0] as string[]);
+  };
+
+  after(() => mock.restoreAll());
+
+  test('writes each store once per batch of an import', async () => {
+    const updates = mock.method(JsonFileStore.prototype, 'update');
+    const csv = fs.readFileSync(path.join(process.cwd(), 'test-shopify.csv'));
+
+    const result = await processing.processFile(csv, 'test-shopify.csv');
+
+    // Five products in batches of two
+    assert.equal(result.childDocumentIds?.length, 5);
+    const writes = (file: string) =>
+      updates.mock.calls.filter((call) => (call.this as JsonFileStore<unknown>).path.endsWith(file)).length;
+    assert.equal(writes('vectors.json'), 3);
+    assert.equal(writes('chunks.json'), 3);
+    assert.equal(writes('lexical-index.json'), 3);
+    updates.mock.restore();
+  });
+
+  test('indexes the same content once', async () => {
+    const first = await processing.processFile(guide(WATERING, FEEDING), 'fern.md');
+
+    let again!: Awaited<ReturnType<typeof processing.processFile>>;
+    let renamed!: Awaited<ReturnType<typeof processing.processFile>>;
+    const texts = await embedded(async () => {
+      again = await processing.processFile(guide(WATERING, FEEDING), 'fern.md');
+      renamed = await processing.processFile(guide(WATERING, FEEDING), 'fern-copy.md');
+    });
+
+    assert.deepEqual(texts, []);
+    assert.equal(again.id, first.id);
+    assert.equal(renamed.id, first.id);
+    assert.deepEqual(again.changes, { added: 0, updated: 0, unchanged: 2, removed: 0 });
+  });
+
+  test('embeds only changed chunks and moves the rest with their embeddings', async () => {
+    const document = await processing.processFile(guide(WATERING, FEEDING, REPOTTING), 'palm.md');
+    const [before] = await vectorStore.fetch([`${document.id}-chunk-2`]);
+
+    // A new first section shifts every chunk down; the feeding section is edited
+    const content = guide(PESTS, WATERING, FEEDING.replace('once a month', 'every two weeks'), REPOTTING);
+    let updated!: Awaited<ReturnType<typeof processing.processFile>>;
+    const texts = await embedded(async () => {
+      updated = await processing.processFile(content, 'palm.md');
+    });
+
+    assert.equal(updated.id, document.id);
+    assert.deepEqual(texts.map((text) => text.split('\n')[0]), ['# Pests', '# Feeding']);
+    assert.deepEqual(updated.changes, { added: 0, updated: 2, unchanged: 2, removed: 0 });
+
+    // The repotting section moved from chunk 2 to chunk 3 with the same vector and its new position
+    const [moved] = await vectorStore.fetch([`${document.id}-chunk-3`]);
+    assert.deepEqual(moved.values, before.values);
+    assert.equal(moved.metadata.chunkIndex, 3);
+    assert.equal(moved.metadata.charStart, content.toString().indexOf('# Repotting'));
+
+    const shrunk = await processing.processFile(guide(PESTS, WATERING), 'palm.md');
+    assert.deepEqual(shrunk.changes, { added: 0, updated: 0, unchanged: 2, removed: 2 });
+    assert.deepEqual(await vectorStore.fetch([`${document.id}-chunk-2`, `${document.id}-chunk-3`]), []);
+  });
+});
@@ -1,27 +1,82 @@
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs/promises';
-import { getPineconeService } from './pinecone.service';
+import { getVectorStore, buildVectorRecord, VectorMetadata } from './vector-store.service';
+import { getChunkStore } from './chunk-store.service';
+import { getLexicalIndex } from './lexical-index.service';
+import { getDocumentRegistryService, RegisteredDocument } from './document-registry.service';
 import { getOpenAIService } from './openai.service';
+import { getEmbeddingProvider } from './embedding-provider.service';
 import { getMediaProcessingService } from './media-processing.service';
 import { getShopifyCsvProcessorService } from './shopify-csv-processor.service';
 import { getWebpageCsvProcessorService } from './webpage-csv-processor.service';
-import { ProcessedDocument, FileType, DocumentMetadata } from '@/types';
+import { getWordDocumentService } from './word-document.service';
+import { getPdfExtractionService, PdfPage } from './pdf-extraction.service';
+import { getChunkingService, TextChunk } from './chunking.service';
+import { ProcessedDocument, FileType, DocumentMetadata, IngestChanges, IngestFailure } from '@/types';
 import { config } from '@/lib/config';
+import { hashContent, hashFile } from '@/lib/hash';
+import { UPLOADED_AT_FIELD } from '@/lib/search-filter';
+
+// Where a PDF page sits within the document's extracted text
+interface PageRange {
+  pageNumber: number;
+  start: number;
+  end: number;
+}
+
+// Metadata that only says where a chunk sits in its document; a chunk that moved keeps its embedding
+const POSITION_FIELDS = ['chunkIndex', 'charStart', 'charEnd', 'pageStart', 'pageEnd'];
+// Left out of chunk hashes, so re-uploading or shifting unchanged text doesn't count as a change
+const UNHASHED_FIELDS = ['uploadedAt', UPLOADED_AT_FIELD, ...POSITION_FIELDS];
+
+// Chunks a batch import stores and removes together, so each store file is rewritten once per batch
+interface ChunkWrites {
+  documents: ProcessedDocument[];
+  embeddings: number[][];
+  stale: string[];
+}
 
 export class DocumentProcessingService {
-  private pineconeService = getPineconeService();
+  private vectorStore = getVectorStore();
+  private chunkStore = getChunkStore();
+  private lexicalIndex = getLexicalIndex();
+  private documentRegistry = getDocumentRegistryService();
   private openAIService = getOpenAIService();
+  private embeddingProvider = getEmbeddingProvider();
   private mediaService = getMediaProcessingService();
   private shopifyCsvProcessor = getShopifyCsvProcessorService();
   private webpageCsvProcessor = getWebpageCsvProcessorService();
+  private wordDocumentService = getWordDocumentService();
+  private pdfExtractionService = getPdfExtractionService();
+  private chunkingService = getChunkingService();
 
   async processFile(
     buffer: Buffer,
     filename: string,
     onProgress?: (stage: string, progress: number) => void
+  ): Promise<ProcessedDocument> {
+    // Save the uploaded file temporarily
+    const uploadedFilePath = await this.mediaService.saveUploadedFile(
+      buffer,
+      filename
+    );
+
+    try {
+      return await this.processStoredFile(uploadedFilePath, filename, onProgress);
+    } finally {
+      await this.mediaService.cleanupFile(uploadedFilePath);
+    }
+  }
+
+  // Process a file already on disk. The caller owns `filePath` and is responsible for removing it.
+  async processStoredFile(
+    filePath: string,
+    filename: string,
+    onProgress?: (stage: string, progress: number) => void
   ): Promise<ProcessedDocument> {
     const fileType = this.determineFileType(filename);
     let content: string;
+    let pages: PdfPage[] | undefined;
     let filesToCleanup: string[] = [];
     const processingSteps: string[] = [];
 
@@ -33,19 +88,15 @@ export class DocumentProcessingService {
         onProgress?.('processing_shopify_csv', 20);
         
         // Process as Shopify CSV
-        const csvContent = buffer.toString('utf-8');
+        const csvContent = await fs.readFile(filePath, 'utf-8');
         const shopifyProducts = await this.shopifyCsvProcessor.processShopifyCsv(csvContent, filename);
         
         onProgress?.('embedding', 50);
         
-        // Process each product
-        for (let i = 0; i < shopifyProducts.length; i++) {
-          const product = shopifyProducts[i];
-          const embedding = await this.openAIService.createEmbedding(product.content);
-          await this.pineconeService.upsertDocument(product, embedding);
-          
-          onProgress?.('embedding', 50 + (i / shopifyProducts.length) * 40);
-        }
+        // Each product is its own document, replaced by handle and only if it changed
+        const { changes, stored, failures } = await this.importRecords(shopifyProducts, 'products', (done) =>
+          onProgress?.('embedding', 50 + (done / shopifyProducts.length) * 40)
+        );
         
         onProgress?.('complete', 100);
         
@@ -53,19 +104,22 @@ export class DocumentProcessingService {
         return {
           id: `shopify-batch-${uuidv4()}`,
           filename: filename,
-          content: `Processed ${shopifyProducts.length} Shopify products from CSV`,
+          content: `Processed ${shopifyProducts.length} Shopify products from CSV (${this.describeChanges(changes, failures.length)})`,
           metadata: {
             source: 'shopify',
             originalFormat: 'csv',
             uploadedAt: new Date(),
             processingSteps: ['shopify_csv_import', `processed_${shopifyProducts.length}_products`],
           },
+          childDocumentIds: stored.map((product) => product.id),
+          changes,
+          failures,
         };
       }
 
       // Check if it's a webpage CSV or JSON
       if (filename.endsWith('.csv') || filename.endsWith('.json')) {
-        const content = buffer.toString('utf-8');
+        const content = await fs.readFile(filePath, 'utf-8');
         
         console.log(`Processing ${filename.endsWith('.csv') ? 'CSV' : 'JSON'} file: ${filename}`);
         console.log(`File size: ${content.length} characters`);
@@ -106,20 +160,10 @@ export class DocumentProcessingService {
           
           onProgress?.('embedding', 50);
           
-          // Process each webpage
-          for (let i = 0; i < webpageDocuments.length; i++) {
-            const webpage = webpageDocuments[i];
-            try {
-              const embedding = await this.openAIService.createEmbedding(webpage.content);
-              await this.pineconeService.upsertDocument(webpage, embedding);
-              console.log(`✅ Processed webpage: ${webpage.metadata.productTitle || webpage.id}`);
-            } catch (embeddingError) {
-              console.error(`Error processing webpage ${webpage.id}:`, embeddingError);
-              // Continue with other webpages even if one fails
-            }
-            
-            onProgress?.('embedding', 50 + (i / webpageDocuments.length) * 40);
-          }
+          // Each webpage is its own document, replaced by handle and only if it changed
+          const { changes, stored, failures } = await this.importRecords(webpageDocuments, 'webpages', (done) =>
+            onProgress?.('embedding', 50 + (done / webpageDocuments.length) * 40)
+          );
           
           onProgress?.('complete', 100);
           
@@ -127,13 +171,16 @@ export class DocumentProcessingService {
           return {
             id: `webpage-batch-${uuidv4()}`,
             filename: filename,
-            content: `Processed ${webpageDocuments.length} webpages from ${filename.endsWith('.csv') ? 'CSV' : 'JSON'}`,
+            content: `Processed ${webpageDocuments.length} webpages from ${filename.endsWith('.csv') ? 'CSV' : 'JSON'} (${this.describeChanges(changes, failures.length)})`,
             metadata: {
               source: 'text',
               originalFormat: filename.endsWith('.csv') ? 'csv' : 'json',
               uploadedAt: new Date(),
               processingSteps: ['webpage_import', `processed_${webpageDocuments.length}_webpages`],
             },
+            childDocumentIds: stored.map((webpage) => webpage.id),
+            changes,
+            failures,
           };
         } else {
           console.log('❌ Not detected as webpage data, will process as regular text file');
@@ -141,23 +188,29 @@ export class DocumentProcessingService {
         }
       }
 
-      // Save the uploaded file temporarily
-      const uploadedFilePath = await this.mediaService.saveUploadedFile(
-        buffer,
-        filename
-      );
-      filesToCleanup.push(uploadedFilePath);
+      // Re-uploading a file that is already indexed is a no-op, checked before any extraction or transcription
+      const fileHash = await hashFile(filePath);
+      const identicalFile = await this.documentRegistry.findByHash(fileHash);
+      if (identicalFile) {
+        return this.alreadyIndexed(identicalFile, onProgress);
+      }
 
       // Process based on file type
       switch (fileType) {
         case 'text':
-          content = await this.processTextFile(buffer, filename);
+          if (filename.toLowerCase().endsWith('.pdf')) {
+            // Keep the pages apart so every chunk knows which pages it came from
+            pages = await this.pdfExtractionService.extractPages(await fs.readFile(filePath), filename);
+            content = pages.map((page) => page.text).join('\n\n');
+          } else {
+            content = await this.processTextFile(await fs.readFile(filePath), filename);
+          }
           processingSteps.push('text_extraction');
           break;
 
         case 'audio':
           onProgress?.('processing', 30);
-          content = await this.processAudioFile(uploadedFilePath, filename);
+          content = await this.processAudioFile(filePath, filename);
           processingSteps.push('audio_transcription');
           break;
 
@@ -165,7 +218,7 @@ export class DocumentProcessingService {
           onProgress?.('processing', 20);
           
           // Check if video needs segmentation (over 100MB)
-          const videoSize = await this.mediaService.getFileSize(uploadedFilePath);
+          const videoSize = await this.mediaService.getFileSize(filePath);
           const needsSegmentation = videoSize > config.upload.maxFileSize;
           
           if (needsSegmentation) {
@@ -174,7 +227,7 @@ export class DocumentProcessingService {
             
             // Segment the video
             const segments = await this.mediaService.segmentVideo(
-              uploadedFilePath,
+              filePath,
               10 // 10-minute segments
             );
             filesToCleanup.push(...segments);
@@ -204,7 +257,7 @@ export class DocumentProcessingService {
           } else {
             // Normal processing for smaller videos
             const audioPath = await this.mediaService.extractAudioFromVideo(
-              uploadedFilePath
+              filePath
             );
             filesToCleanup.push(audioPath);
             processingSteps.push('video_to_audio');
@@ -219,17 +272,27 @@ export class DocumentProcessingService {
           throw new Error('Unsupported file type');
       }
 
+      // The same text from a different file (e.g. re-exported or renamed) is also already indexed
+      const identicalContent = await this.documentRegistry.findByHash(hashContent(content));
+      if (identicalContent) {
+        await this.mediaService.cleanupFiles(filesToCleanup);
+        return this.alreadyIndexed(identicalContent, onProgress);
+      }
+
+      // A new version of an uploaded file replaces it, keeping its document id
+      const previous = await this.documentRegistry.findByFilename(filename, fileType);
+
       onProgress?.('embedding', 60);
 
       // Get media duration if applicable
       const duration =
         fileType !== 'text'
-          ? await this.mediaService.getMediaDuration(uploadedFilePath)
+          ? await this.mediaService.getMediaDuration(filePath)
           : undefined;
 
       // Create document metadata
       const document: ProcessedDocument = {
-        id: uuidv4(),
+        id: previous?.id || uuidv4(),
         filename,
         content,
         metadata: {
@@ -238,53 +301,66 @@ export class DocumentProcessingService {
           uploadedAt: new Date(),
           processingSteps,
           duration,
+          ...(pages && { pageStart: pages[0].pageNumber, pageEnd: pages[pages.length - 1].pageNumber }),
         },
       };
 
-      // Split content into chunks if it's too large
-      const chunks = await this.openAIService.splitTextIntoChunks(content);
-      
+      // Split content into chunks that fit the embedding provider's input limit
+      const chunks = await this.chunkingService.chunk(
+        content,
+        this.chunkingService.optionsFor(document.metadata.originalFormat, fileType),
+        this.embeddingProvider.maxInputChars
+      );
+      if (chunks.length === 0) {
+        throw new Error(`No text content to index in ${filename}`);
+      }
+      const pageRanges = pages && this.toPageRanges(pages);
+
       onProgress?.('embedding', 80);
 
-      // Create embeddings for each chunk
-      if (chunks.length === 1) {
-        // Single chunk - create one embedding
-        const embedding = await this.openAIService.createEmbedding(content);
-        await this.pineconeService.upsertDocument(document, embedding);
-      } else {
-        // Multiple chunks - create embeddings in batches to avoid API limits
-        const batchSize = 5; // Process 5 chunks at a time
-        console.log(`Processing ${chunks.length} chunks in batches of ${batchSize}`);
-        
-        for (let i = 0; i < chunks.length; i += batchSize) {
-          const batchChunks = chunks.slice(i, Math.min(i + batchSize, chunks.length));
-          const batchEmbeddings = await this.openAIService.createEmbeddings(batchChunks);
-          
-          // Store each chunk in the batch
-          for (let j = 0; j < batchChunks.length; j++) {
-            const chunkIndex = i + j;
-            const chunkDocument: ProcessedDocument = {
+      // One vector for a single chunk, otherwise one per chunk with its position
+      const chunkDocuments: ProcessedDocument[] =
+        chunks.length === 1
+          ? [
+              {
+                ...document,
+                content: chunks[0].content,
+                metadata: { ...document.metadata, ...this.chunkMetadata(chunks[0], pageRanges) },
+              },
+            ]
+          : chunks.map((chunk, chunkIndex) => ({
               ...document,
               id: `${document.id}-chunk-${chunkIndex}`,
-              content: batchChunks[j],
+              content: chunk.content,
               metadata: {
                 ...document.metadata,
                 processingSteps: [...processingSteps, `chunk_${chunkIndex + 1}_of_${chunks.length}`],
+                documentId: document.id,
+                chunkIndex,
+                totalChunks: chunks.length,
+                ...this.chunkMetadata(chunk, pageRanges),
               },
-            };
-            
-            await this.pineconeService.upsertDocument(chunkDocument, batchEmbeddings[j]);
-          }
-          
-          // Log progress
-          const processed = Math.min(i + batchSize, chunks.length);
-          console.log(`Processed ${processed}/${chunks.length} chunks`);
-          onProgress?.('embedding', 60 + (processed / chunks.length) * 30);
-        }
+            }));
+
+      // Only new and changed chunks are embedded; chunks gone from a previous version are deleted
+      const { hashes, changes } = await this.replaceChunks(chunkDocuments, previous, (processed, total) => {
+        console.log(`Processed ${processed}/${total} chunks`);
+        onProgress?.('embedding', 60 + (processed / total) * 30);
+      });
+      document.changes = changes;
+      if (previous) {
+        console.log(`Replaced ${filename} (document ${document.id}): ${this.describeChanges(changes)}`);
       }
 
       onProgress?.('storing', 95);
 
+      await this.documentRegistry.register([
+        {
+          ...this.toRegistryEntry(document, chunkDocuments.map((chunk) => chunk.id), hashes),
+          fileHash,
+        },
+      ]);
+
       // Cleanup temporary files
       await this.mediaService.cleanupFiles(filesToCleanup);
 
@@ -298,6 +374,313 @@ export class DocumentProcessingService {
     }
   }
 
+  // Remove every vector and chunk belonging to a document, then forget it
+  async deleteDocument(documentId: string): Promise<boolean> {
+    const document = await this.documentRegistry.get(documentId);
+    if (!document) {
+      return false;
+    }
+
+    await this.removeChunks(document.chunkIds);
+    await this.documentRegistry.remove(documentId);
+
+    console.log(`Deleted document ${documentId} (${document.chunkIds.length} chunks)`);
+    return true;
+  }
+
+  // Offsets of each page within the pages joined by blank lines
+  private toPageRanges(pages: PdfPage[]): PageRange[] {
+    let offset = 0;
+    return pages.map((page) => {
+      const range = { pageNumber: page.pageNumber, start: offset, end: offset + page.text.length };
+      offset = range.end + 2;
+      return range;
+    });
+  }
+
+  private chunkMetadata(chunk: TextChunk, pageRanges?: PageRange[]): Partial<DocumentMetadata> {
+    const covered = pageRanges?.filter((page) => page.start < chunk.end && page.end > chunk.start);
+
+    return {
+      charStart: chunk.start,
+      charEnd: chunk.end,
+      ...(chunk.section && { section: chunk.section }),
+      ...(covered?.length && {
+        pageStart: covered[0].pageNumber,
+        pageEnd: covered[covered.length - 1].pageNumber,
+      }),
+    };
+  }
+
+  private toRegistryEntry(document: ProcessedDocument, chunkIds: string[], chunkHashes: string[]): RegisteredDocument {
+    return {
+      id: document.id,
+      filename: document.filename,
+      source: document.metadata.source,
+      originalFormat: document.metadata.originalFormat,
+      chunkIds,
+      contentHash: hashContent(document.content),
+      chunkHashes,
+      ...(document.metadata.productHandle && { handle: document.metadata.productHandle }),
+      processingSteps: document.metadata.processingSteps || [],
+      uploadedAt: document.metadata.uploadedAt.toISOString(),
+    };
+  }
+
+  // The result of uploading content that is already indexed: nothing is written
+  private alreadyIndexed(
+    existing: RegisteredDocument,
+    onProgress?: (stage: string, progress: number) => void
+  ): ProcessedDocument {
+    console.log(`Identical content is already indexed as document ${existing.id} (${existing.filename})`);
+    onProgress?.('complete', 100);
+
+    return {
+      id: existing.id,
+      filename: existing.filename,
+      content: '', // not extracted again
+      metadata: {
+        source: existing.source,
+        originalFormat: existing.originalFormat,
+        uploadedAt: new Date(existing.uploadedAt),
+        processingSteps: existing.processingSteps,
+      },
+      changes: { ...this.noChanges(), unchanged: existing.chunkIds.length },
+    };
+  }
+
+  // Identifies a chunk's text and the metadata that comes with it, but not its position or upload time
+  private chunkHash(chunk: ProcessedDocument): string {
+    const metadata: VectorMetadata = Object.fromEntries(
+      Object.entries(buildVectorRecord(chunk, []).metadata).filter(([field]) => !UNHASHED_FIELDS.includes(field))
+    );
+    return hashContent(JSON.stringify({ content: chunk.content, metadata }));
+  }
+
+  /**
+   * Store the records of a batch import (Shopify products, webpages), each one
+   * chunk. Records are processed a batch at a time so their embeddings go out
+   * in shared requests; a record that fails is reported and the rest carry on.
+   * Fails only when every record does.
+   */
+  private async importRecords(
+    records: ProcessedDocument[],
+    label: string,
+    onProgress?: (done: number) => void
+  ): Promise<{ changes: IngestChanges; stored: ProcessedDocument[]; failures: IngestFailure[] }> {
+    const changes = this.noChanges();
+    const stored: ProcessedDocument[] = [];
+    const failures: IngestFailure[] = [];
+    const batchSize = config.embedding.batchSize;
+
+    for (let i = 0; i < records.length; i += batchSize) {
+      const batch = records.slice(i, i + batchSize);
+      const writes: ChunkWrites = { documents: [], embeddings: [], stale: [] };
+      const results = await Promise.allSettled(
+        batch.map(async (record) => {
+          const previous = await this.documentRegistry.get(record.id);
+          return { previous, ...(await this.replaceChunks([record], previous, undefined, writes)) };
+        })
+      );
+      // Written once for the whole batch; a failed write fails every record that had something to write
+      const written = await this.writeChunks(writes).then(
+        () => null,
+        (reason: unknown) => ({ status: 'rejected' as const, reason })
+      );
+
+      const registryEntries: RegisteredDocument[] = [];
+      results.forEach((settled, index) => {
+        const record = batch[index];
+        const result =
+          written && settled.status === 'fulfilled' && settled.value.changes.unchanged === 0 ? written : settled;
+        if (result.status === 'rejected') {
+          const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+          console.error(`Error processing ${record.metadata.productTitle || record.id}:`, result.reason);
+          failures.push({
+            id: record.id,
+            ...(record.metadata.productTitle && { title: record.metadata.productTitle }),
+            error,
+          });
+          return;
+        }
+
+        const { previous, hashes, changes: recordChanges } = result.value;
+        this.countDocumentChange(changes, previous, recordChanges);
+        if (recordChanges.unchanged === 0) {
+          registryEntries.push(this.toRegistryEntry(record, [record.id], hashes));
+        }
+        stored.push(record);
+      });
+      // Registered batch by batch so an interrupted import keeps what it stored
+      await this.documentRegistry.register(registryEntries);
+
+      onProgress?.(Math.min(i + batchSize, records.length));
+    }
+
+    if (failures.length > 0 && failures.length === records.length) {
+      throw new Error(`All ${records.length} ${label} failed to import: ${failures[0].error}`);
+    }
+    if (failures.length > 0) {
+      console.warn(`${failures.length} of ${records.length} ${label} failed to import`);
+    }
+    return { changes, stored, failures };
+  }
+
+  /**
+   * Store a document's chunks, reusing the embeddings of those whose hash the
+   * previous version already stored: in place they are skipped, and when they
+   * moved (e.g. text was inserted above them) they are written under their new
+   * id and position without being embedded again. Chunks of the previous
+   * version that no longer exist are deleted. With `writes`, the chunks are
+   * collected there for the caller to write.
+   */
+  private async replaceChunks(
+    chunks: ProcessedDocument[],
+    previous: RegisteredDocument | null,
+    onBatch?: (processed: number, total: number) => void,
+    writes?: ChunkWrites
+  ): Promise<{ hashes: string[]; changes: IngestChanges }> {
+    const hashes = chunks.map((chunk) => this.chunkHash(chunk));
+    // Documents registered before chunk hashing have no hashes and are rewritten in full
+    const stored = new Map(
+      (previous?.chunkIds || []).map((id, index): [string, string | undefined] => [id, previous?.chunkHashes?.[index]])
+    );
+    const storedByHash = new Map<string, string>();
+    stored.forEach((hash, id) => hash && !storedByHash.has(hash) && storedByHash.set(hash, id));
+
+    // The previous chunk each chunk's content is stored under, preferring its own id
+    const sourceIds = chunks.map((chunk, index) =>
+      stored.get(chunk.id) === hashes[index] ? chunk.id : storedByHash.get(hashes[index])
+    );
+    const wanted = [...new Set(sourceIds.filter((id): id is string => !!id))];
+    const sources = new Map(
+      (wanted.length > 0 ? await this.vectorStore.fetch(wanted) : []).map((record) => [record.id, record])
+    );
+
+    const changed: ProcessedDocument[] = [];
+    const moved: ProcessedDocument[] = [];
+    const movedEmbeddings: number[][] = [];
+    chunks.forEach((chunk, index) => {
+      const source = sourceIds[index] && sources.get(sourceIds[index]);
+      if (!source) {
+        changed.push(chunk);
+        return;
+      }
+      const { metadata } = buildVectorRecord(chunk, []);
+      const inPlace =
+        source.id === chunk.id && POSITION_FIELDS.every((field) => metadata[field] === source.metadata[field]);
+      if (!inPlace) {
+        moved.push(chunk);
+        movedEmbeddings.push(source.values);
+      }
+    });
+
+    if (moved.length > 0) {
+      console.log(`Moving ${moved.length} unchanged chunks without embedding them again`);
+      if (writes) {
+        writes.documents.push(...moved);
+        writes.embeddings.push(...movedEmbeddings);
+      } else {
+        await this.storeChunks(moved, movedEmbeddings);
+      }
+    }
+
+    // Requests are batched, retried and rate limited by the embedding provider; storing per batch reports progress
+    const batchSize = config.embedding.batchSize;
+    if (changed.length > 1) {
+      console.log(`Processing ${changed.length} chunks in batches of ${batchSize}`);
+    }
+    for (let i = 0; i < changed.length; i += batchSize) {
+      const batch = changed.slice(i, i + batchSize);
+      const embeddings = await this.embeddingProvider.createEmbeddings(batch.map((chunk) => chunk.content));
+      if (writes) {
+        writes.documents.push(...batch);
+        writes.embeddings.push(...embeddings);
+      } else {
+        await this.storeChunks(batch, embeddings);
+      }
+      onBatch?.(Math.min(i + batchSize, changed.length), changed.length);
+    }
+
+    const ids = new Set(chunks.map((chunk) => chunk.id));
+    const stale = [...stored.keys()].filter((id) => !ids.has(id));
+    if (writes) {
+      writes.stale.push(...stale);
+    } else {
+      await this.removeChunks(stale);
+    }
+
+    const updated = changed.filter((chunk) => stored.has(chunk.id)).length;
+    return {
+      hashes,
+      changes: {
+        added: changed.length - updated,
+        updated,
+        unchanged: chunks.length - changed.length,
+        removed: stale.length,
+      },
+    };
+  }
+
+  private async writeChunks({ documents, embeddings, stale }: ChunkWrites): Promise<void> {
+    if (documents.length > 0) {
+      await this.storeChunks(documents, embeddings);
+    }
+    await this.removeChunks(stale);
+  }
+
+  private async removeChunks(ids: string[]): Promise<void> {
+    await this.vectorStore.delete(ids);
+    await this.chunkStore.delete(ids);
+    await this.lexicalIndex.remove(ids);
+  }
+
+  private noChanges(): IngestChanges {
+    return { added: 0, updated: 0, unchanged: 0, removed: 0 };
+  }
+
+  // Batch imports count whole products or pages rather than chunks
+  private countDocumentChange(
+    total: IngestChanges,
+    previous: RegisteredDocument | null,
+    changes: IngestChanges
+  ): void {
+    if (changes.unchanged > 0) total.unchanged++;
+    else if (previous) total.updated++;
+    else total.added++;
+  }
+
+  private describeChanges({ added, updated, unchanged, removed }: IngestChanges, failed = 0): string {
+    return `${added} new, ${updated} updated, ${unchanged} unchanged${removed ? `, ${removed} removed` : ''}${
+      failed ? `, ${failed} failed` : ''
+    }`;
+  }
+
+  // Write full chunk text before the vectors so every stored vector can be hydrated
+  private async storeChunks(
+    documents: ProcessedDocument[],
+    embeddings: number[][]
+  ): Promise<void> {
+    const records = documents.map((document, i) => buildVectorRecord(document, embeddings[i]));
+
+    await this.chunkStore.put(
+      documents.map((document) => ({
+        id: document.id,
+        documentId: document.metadata.documentId || document.id,
+        filename: document.filename,
+        content: document.content,
+      }))
+    );
+    await this.lexicalIndex.add(
+      documents.map((document, i) => ({
+        id: document.id,
+        content: document.content,
+        metadata: records[i].metadata,
+      }))
+    );
+    await this.vectorStore.upsert(records);
+  }
+
   private determineFileType(filename: string): FileType {
     const extension = filename.split('.').pop()?.toLowerCase();
 
@@ -318,123 +701,12 @@ export class DocumentProcessingService {
   ): Promise<string> {
     const extension = filename.split('.').pop()?.toLowerCase();
 
-    // Handle PDF files
-    if (extension === 'pdf') {
-      try {
-        console.log(`Processing PDF file: ${filename}, buffer size: ${buffer.length} bytes`);
-        
-        // Use pdf2json which is designed for Node.js
-        const PDFParser = (await import('pdf2json')).default;
-        const pdfParser = new PDFParser();
-        
-        console.log('PDF parser loaded successfully');
-        
-        // Create a promise to handle the async parsing
-        const pdfText = await new Promise<string>((resolve, reject) => {
-          pdfParser.on('pdfParser_dataReady', (pdfData: any) => {
-            try {
-              // Extract text from all pages
-              let extractedText = '';
-              const pages = pdfData.Pages || [];
-              
-              console.log(`PDF parsed successfully: ${pages.length} pages`);
-              
-              pages.forEach((page: any, pageIndex: number) => {
-                extractedText += `\n--- Page ${pageIndex + 1} ---\n`;
-                
-                // Extract text from all text elements on the page
-                if (page.Texts) {
-                  // Group texts by their Y position (line)
-                  const textsByLine = new Map<number, Array<{x: number, text: string}>>();
-                  
-                  page.Texts.forEach((text: any) => {
-                    if (text.R && text.R.length > 0) {
-                      const yPos = Math.round(text.y * 10) / 10; // Round to nearest 0.1 to group similar Y positions
-                      
-                      if (!textsByLine.has(yPos)) {
-                        textsByLine.set(yPos, []);
-                      }
-                      
-                      // Combine all text runs in this text element
-                      let combinedText = '';
-                      text.R.forEach((r: any) => {
-                        if (r.T) {
-                          combinedText += decodeURIComponent(r.T);
-                        }
-                      });
-                      
-                      if (combinedText) {
-                        textsByLine.get(yPos)!.push({
-                          x: text.x,
-                          text: combinedText
-                        });
-                      }
-                    }
-                  });
-                  
-                  // Sort lines by Y position and process each line
-                  const sortedLines = Array.from(textsByLine.entries()).sort((a, b) => a[0] - b[0]);
-                  
-                  sortedLines.forEach(([_, texts]) => {
-                    // Sort texts in line by X position
-                    texts.sort((a, b) => a.x - b.x);
-                    
-                    let lineText = '';
-                    let lastX = -1;
-                    
-                    texts.forEach((textItem, index) => {
-                      // Check if we need a space based on position
-                      if (lastX !== -1) {
-                        const gap = textItem.x - lastX;
-                        // Add space if there's a significant gap or if previous text doesn't end with space
-                        if (gap > 0.5 || (!lineText.endsWith(' ') && textItem.text.length > 1)) {
-                          lineText += ' ';
-                        }
-                      }
-                      
-                      lineText += textItem.text;
-                      lastX = textItem.x + textItem.text.length * 0.5; // Approximate end position
-                    });
-                    
-                    extractedText += lineText.trim() + '\n';
-                  });
-                }
-                extractedText += '\n';
-              });
-              
-              resolve(extractedText);
-            } catch (error) {
-              reject(error);
-            }
-          });
-          
-          pdfParser.on('pdfParser_dataError', (error: any) => {
-            reject(error);
-          });
-          
-          // Parse the PDF buffer
-          pdfParser.parseBuffer(buffer);
-        });
-        
-        console.log(`PDF text extracted successfully: ${pdfText.length} characters`);
-        
-        if (!pdfText || pdfText.trim().length === 0) {
-          throw new Error('PDF appears to be empty or contains no extractable text');
-        }
-        
-        return pdfText;
-      } catch (error) {
-        console.error('Error parsing PDF:', error);
-        if (error instanceof Error) {
-          console.error('Error details:', error.message);
-          console.error('Error stack:', error.stack);
-        }
-        throw new Error(`Failed to extract text from PDF: ${filename}`);
-      }
+    // Handle Word documents
+    if (extension === 'doc' || extension === 'docx') {
+      return this.wordDocumentService.extractText(buffer, filename);
     }
 
     // Handle other text formats (txt, md, etc.)
-    // TODO: Add support for DOC/DOCX files
     return buffer.toString('utf-8');
   }
 
@@ -453,12 +725,24 @@ export class DocumentProcessingService {
       return transcription;
     } catch (error) {
       console.error('Error processing audio file:', error);
-      throw new Error(`Failed to transcribe audio file: ${originalFilename}`);
+      throw new Error(
+        `Failed to transcribe audio file ${originalFilename}: ${error instanceof Error ? error.message : error}`,
+        { cause: error }
+      );
     }
   }
 
-  async initializePinecone(): Promise<void> {
-    await this.pineconeService.initialize();
+  async initializeVectorStore(): Promise<void> {
+    const { name, model, dimension } = this.embeddingProvider;
+    await this.vectorStore.initialize(dimension);
+
+    // Refuse to mix vectors from different embedding spaces in one index
+    const stats = await this.vectorStore.describeStats();
+    if (stats.dimension !== null && stats.dimension !== dimension) {
+      throw new Error(
+        `The ${this.vectorStore.name} index has dimension ${stats.dimension}, but the active embedding provider (${name}/${model}) produces ${dimension}-dimensional vectors`
+      );
+    }
   }
 }
 
@@ -0,0 +1,24 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { useTestEnvironment } from '../testing/environment';
+
+useTestEnvironment('registry');
+
+describe('document registry', () => {
+  let route: typeof import('../app/api/documents/[id]/route');
+
+  before(async () => {
+    route = await import('../app/api/documents/[id]/route');
+  });
+
+  test('finds no document for names on Object.prototype', async () => {
+    for (const id of ['constructor', 'toString', '__proto__']) {
+      const context = { params: Promise.resolve({ id }) };
+      const request = new NextRequest(`http://localhost/api/documents/${id}`);
+
+      assert.equal((await route.GET(request, context)).status, 404, id);
+      assert.equal((await route.DELETE(request, context)).status, 404, id);
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import path from 'path';
+import { DATA_DIR } from '@/lib/config';
+import { JsonFileStore } from '@/lib/json-file-store';
+import { DocumentMetadata } from '@/types';
+
+export interface RegisteredDocument {
+  id: string;
+  filename: string;
+  source: DocumentMetadata['source'];
+  originalFormat: string;
+  chunkIds: string[];
+  contentHash: string; // of the extracted text
+  chunkHashes?: string[]; // of each chunk's text and non-positional metadata, in chunkIds order
+  fileHash?: string; // of the uploaded file
+  handle?: string; // product or page handle of documents imported from a CSV
+  processingSteps: string[];
+  uploadedAt: string;
+}
+
+/**
+ * Persistent record of every ingested document and the vector ids it was
+ * split into, so a whole upload can be listed or removed later.
+ */
+export class DocumentRegistryService {
+  private store = new JsonFileStore<Record<string, RegisteredDocument>>(
+    path.join(DATA_DIR, 'documents.json'),
+    () => ({})
+  );
+
+  async register(documents: RegisteredDocument[]): Promise<void> {
+    if (documents.length === 0) return;
+
+    await this.store.update((data) => {
+      for (const document of documents) {
+        data[document.id] = document;
+      }
+    });
+  }
+
+  async get(id: string): Promise<RegisteredDocument | null> {
+    const data = await this.store.read();
+    // Own keys only: ids such as "constructor" come straight from the URL
+    return Object.hasOwn(data, id) ? data[id] : null;
+  }
+
+  // A document with identical content: the same uploaded file or the same extracted text
+  async findByHash(hash: string): Promise<RegisteredDocument | null> {
+    const data = await this.store.read();
+    return Object.values(data).find((document) => document.fileHash === hash || document.contentHash === hash) || null;
+  }
+
+  // The latest upload of a file, not counting products and pages imported from CSVs
+  async findByFilename(filename: string, source: DocumentMetadata['source']): Promise<RegisteredDocument | null> {
+    const matches = (await this.list(source)).filter(
+      (document) => document.filename === filename && !document.handle
+    );
+    return matches[0] || null;
+  }
+
+  async list(source?: DocumentMetadata['source']): Promise<RegisteredDocument[]> {
+    const data = await this.store.read();
+    return Object.values(data)
+      .filter((document) => !source || document.source === source)
+      .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.store.update((data) => {
+      delete data[id];
+    });
+  }
+}
+
+// Singleton instance
+let documentRegistryService: DocumentRegistryService | null = null;
+
+export const getDocumentRegistryService = (): DocumentRegistryService => {
+  if (!documentRegistryService) {
+    documentRegistryService = new DocumentRegistryService();
+  }
+  return documentRegistryService;
+};
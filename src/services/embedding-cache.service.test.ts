@@ -0,0 +1,78 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { cacheKey, EmbeddingCache } from './embedding-cache.service';
+import { temporaryDirectory } from '../testing/environment';
+
+const dataDir = temporaryDirectory('cache');
+const provider = { name: 'openai', model: 'text-embedding-3-small', dimension: 3 };
+const other = { name: 'ollama', model: 'nomic-embed-text:latest', dimension: 3 };
+
+describe('embedding cache', () => {
+  test('returns stored vectors and counts hits and misses', async () => {
+    const cache = new EmbeddingCache(path.join(dataDir, 'lookups'), 10);
+    const key = cacheKey(provider, 'lavender  oil');
+
+    await cache.put([{ key, vector: [0.5, -1, 2] }]);
+    const [hit, miss] = await cache.get([cacheKey(provider, 'lavender oil'), cacheKey(provider, 'rose oil')]);
+
+    assert.deepEqual(hit, [0.5, -1, 2]);
+    assert.equal(miss, undefined);
+    const stats = await cache.stats();
+    assert.equal(stats.entries, 1);
+    assert.equal(stats.hits, 1);
+    assert.equal(stats.misses, 1);
+  });
+
+  test('keeps the entries every instance writes', async () => {
+    const directory = path.join(dataDir, 'shared');
+    const [first, second] = [new EmbeddingCache(directory, 100), new EmbeddingCache(directory, 100)];
+
+    await Promise.all([
+      first.put([{ key: cacheKey(provider, 'one'), vector: [1, 1, 1] }]),
+      second.put([{ key: cacheKey(provider, 'two'), vector: [2, 2, 2] }]),
+    ]);
+
+    const vectors = await new EmbeddingCache(directory, 100).get([cacheKey(provider, 'one'), cacheKey(provider, 'two')]);
+    assert.deepEqual(vectors, [[1, 1, 1], [2, 2, 2]]);
+  });
+
+  test('evicts the least recently used entries beyond maxEntries', async () => {
+    const cache = new EmbeddingCache(path.join(dataDir, 'eviction'), 10);
+    const keys = Array.from({ length: 10 }, (_, index) => cacheKey(provider, `text ${index}`));
+    await cache.put(keys.map((key, index) => ({ key, vector: [index, 0, 0] })));
+
+    // Make the first entry the most recently used, then go over the limit
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await cache.get([keys[0]]);
+    await cache.flush();
+    await cache.put([{ key: cacheKey(provider, 'text 10'), vector: [10, 0, 0] }]);
+
+    const stats = await cache.stats();
+    assert.equal(stats.entries, 9);
+    assert.equal(stats.evictions, 2);
+    const [first, second] = await cache.get([keys[0], keys[1]]);
+    assert.deepEqual(first, [0, 0, 0]);
+    assert.equal(second, undefined);
+  });
+
+  test('purges by provider and model', async () => {
+    const cache = new EmbeddingCache(path.join(dataDir, 'purge'), 10);
+    await cache.put([
+      { key: cacheKey(provider, 'a'), vector: [1, 2, 3] },
+      { key: cacheKey(other, 'a'), vector: [4, 5, 6] },
+    ]);
+
+    assert.deepEqual((await cache.stats()).models, {
+      'openai|text-embedding-3-small|3': 1,
+      'ollama|nomic-embed-text:latest|3': 1,
+    });
+    assert.equal(await cache.purge({ model: 'nomic-embed-text:latest' }), 1);
+    assert.deepEqual(await cache.get([cacheKey(provider, 'a'), cacheKey(other, 'a')]), [[1, 2, 3], undefined]);
+
+    assert.equal(await cache.purge(), 1);
+    const stats = await cache.stats();
+    assert.equal(stats.entries, 0);
+    assert.equal(stats.hits, 0);
+  });
+});
@@ -0,0 +1,362 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config, DATA_DIR } from '@/lib/config';
+import { hashContent } from '@/lib/hash';
+import { JsonFileStore } from '@/lib/json-file-store';
+import type { EmbeddingProvider } from './embedding-provider.service';
+
+interface CacheCounters {
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+// An entry file found by scanning the cache directory
+interface StoredEntry {
+  file: string;
+  model: string; // provider|model|dimension
+  lastUsedAt: number;
+}
+
+export interface EmbeddingCacheStats {
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  hitRate: number; // hits / (hits + misses), 0 before the first lookup
+  evictions: number;
+  models: Record<string, number>; // entries per provider|model|dimension
+}
+
+export interface EmbeddingCachePurge {
+  provider?: string;
+  model?: string;
+  olderThanDays?: number; // not used for this many days
+}
+
+// Texts that differ only in whitespace or Unicode composition share an embedding
+export function normalizeText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+// "|" rather than ":" because model names like "nomic-embed-text:latest" contain colons
+export function cacheKey(provider: Pick<EmbeddingProvider, 'name' | 'model' | 'dimension'>, text: string): string {
+  return `${provider.name}|${provider.model}|${provider.dimension}|${hashContent(normalizeText(text))}`;
+}
+
+// Provider and model names as directory names: "/" and ":" are escaped, and so are dots, so ".." can't climb out
+const toSegment = (name: string) => encodeURIComponent(name).replace(/\./g, '%2E');
+const fromSegment = (segment: string) => decodeURIComponent(segment);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STATS_FILE = 'stats.json';
+// Eviction removes entries down to this share of maxEntries, so it doesn't run again on every new entry
+const EVICTION_LOW_WATER = 0.9;
+
+/**
+ * Persistent embeddings keyed by provider, model, dimension and a hash of the
+ * normalized text. Every entry is a file of raw float32 values under
+ * `<provider>/<model>/<dimension>/<first two hash characters>/`, written
+ * through a temporary file and a rename. Adding an embedding writes only its
+ * own file, nothing is held in memory, and the server and the
+ * `embedding-cache` command can use the cache at the same time. The time an
+ * entry was last used is its file's modification time; once the cache holds
+ * more than `maxEntries`, the least recently used are evicted.
+ *
+ * Lookups don't write: hits, misses and use times are collected in memory and
+ * saved with the next new entries, or after `usageFlushMs` at the latest.
+ */
+export class EmbeddingCache {
+  private counters: JsonFileStore<CacheCounters>;
+  private pendingUsage = new Map<string, number>();
+  private pendingHits = 0;
+  private pendingMisses = 0;
+  private lastFlush = Date.now();
+  // Entries on disk as of the last scan plus those added since; null until the first scan
+  private entryCount: number | null = null;
+
+  constructor(
+    private readonly directory: string = config.embeddingCache.path || path.join(DATA_DIR, 'embedding-cache'),
+    private readonly maxEntries: number = config.embeddingCache.maxEntries
+  ) {
+    this.counters = new JsonFileStore<CacheCounters>(path.join(directory, STATS_FILE), () => ({
+      hits: 0,
+      misses: 0,
+      evictions: 0,
+    }));
+  }
+
+  // Cached vectors in key order, undefined where there is none
+  async get(keys: string[]): Promise<Array<number[] | undefined>> {
+    const now = Date.now();
+
+    const vectors = await Promise.all(
+      keys.map(async (key) => {
+        const vector = await this.read(key);
+        if (!vector) {
+          this.pendingMisses++;
+          return undefined;
+        }
+        this.pendingHits++;
+        this.pendingUsage.set(key, now);
+        return vector;
+      })
+    );
+
+    if (now - this.lastFlush >= config.embeddingCache.usageFlushMs) {
+      await this.flush();
+    }
+    return vectors;
+  }
+
+  async put(entries: Array<{ key: string; vector: number[] }>): Promise<void> {
+    if (entries.length === 0) return;
+
+    for (const { key, vector } of entries) {
+      await this.write(key, vector);
+    }
+    await this.flush();
+
+    this.entryCount = (this.entryCount ?? (await this.scan()).length) + entries.length;
+    if (this.entryCount > this.maxEntries) {
+      await this.evict();
+    }
+  }
+
+  // Save the hits, misses and use times collected since the last write
+  async flush(): Promise<void> {
+    const usage = [...this.pendingUsage];
+    const hits = this.pendingHits;
+    const misses = this.pendingMisses;
+    this.pendingUsage.clear();
+    this.pendingHits = 0;
+    this.pendingMisses = 0;
+    this.lastFlush = Date.now();
+
+    for (const [key, usedAt] of usage) {
+      const time = new Date(usedAt);
+      await fs.utimes(this.entryPath(key), time, time).catch(() => undefined); // evicted or purged meanwhile
+    }
+    if (hits > 0 || misses > 0) {
+      await this.counters.update((counters) => {
+        counters.hits += hits;
+        counters.misses += misses;
+      });
+    }
+  }
+
+  async stats(): Promise<EmbeddingCacheStats> {
+    await this.flush();
+    const [entries, counters] = await Promise.all([this.scan(), this.counters.read()]);
+
+    const models: Record<string, number> = {};
+    for (const entry of entries) {
+      models[entry.model] = (models[entry.model] || 0) + 1;
+    }
+
+    const lookups = counters.hits + counters.misses;
+    return {
+      entries: entries.length,
+      maxEntries: this.maxEntries,
+      hits: counters.hits,
+      misses: counters.misses,
+      hitRate: lookups ? counters.hits / lookups : 0,
+      evictions: counters.evictions,
+      models,
+    };
+  }
+
+  // Remove every entry, or only those matching all the given conditions; returns how many were removed
+  async purge({ provider, model, olderThanDays }: EmbeddingCachePurge = {}): Promise<number> {
+    await this.flush();
+    const everything = provider === undefined && model === undefined && olderThanDays === undefined;
+    const cutoff = olderThanDays !== undefined ? Date.now() - olderThanDays * DAY_MS : undefined;
+
+    let removed = 0;
+    for (const entry of await this.scan()) {
+      const [entryProvider, entryModel] = entry.model.split('|');
+      if (provider !== undefined && entryProvider !== provider) continue;
+      if (model !== undefined && entryModel !== model) continue;
+      if (cutoff !== undefined && entry.lastUsedAt >= cutoff) continue;
+      await fs.rm(entry.file, { force: true });
+      removed++;
+    }
+
+    if (everything) {
+      // Also drop the emptied directories
+      const providers = await fs.readdir(this.directory, { withFileTypes: true }).catch(() => []);
+      for (const entry of providers.filter((entry) => entry.isDirectory())) {
+        await fs.rm(path.join(this.directory, entry.name), { recursive: true, force: true });
+      }
+      await this.counters.update((counters) => Object.assign(counters, { hits: 0, misses: 0, evictions: 0 }));
+    }
+    this.entryCount = null;
+    return removed;
+  }
+
+  private entryPath(key: string): string {
+    const parts = key.split('|');
+    const hash = parts.pop()!;
+    const dimension = parts.pop()!;
+    const [provider, ...model] = parts;
+    return path.join(
+      this.directory,
+      toSegment(provider),
+      toSegment(model.join('|')),
+      dimension,
+      hash.slice(0, 2),
+      hash
+    );
+  }
+
+  private async read(key: string): Promise<number[] | undefined> {
+    let bytes: Buffer;
+    try {
+      bytes = await fs.readFile(this.entryPath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+
+    // A file of the wrong size (e.g. from a disk that filled up) is treated as missing
+    const dimension = Number(key.split('|').at(-2));
+    if (bytes.length !== dimension * 4) return undefined;
+
+    // Copy into a fresh buffer: Float32Array needs 4-byte alignment, which pooled Buffers don't guarantee
+    return Array.from(new Float32Array(new Uint8Array(bytes).buffer));
+  }
+
+  private async write(key: string, vector: number[]): Promise<void> {
+    const file = this.entryPath(key);
+    // Unique per write: two requests can embed the same new text at the same time
+    const tempFile = `${file}.${process.pid}-${Math.random().toString(36).slice(2)}.tmp`;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(tempFile, Buffer.from(new Float32Array(vector).buffer));
+    await fs.rename(tempFile, file);
+  }
+
+  // Every entry file, with the model it belongs to and when it was last used
+  private async scan(): Promise<StoredEntry[]> {
+    const entries: StoredEntry[] = [];
+    const list = async (directory: string) => {
+      try {
+        return await fs.readdir(directory, { withFileTypes: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+    };
+
+    for (const provider of await list(this.directory)) {
+      if (!provider.isDirectory()) continue;
+      const providerDir = path.join(this.directory, provider.name);
+      for (const model of await list(providerDir)) {
+        const modelDir = path.join(providerDir, model.name);
+        for (const dimension of await list(modelDir)) {
+          const dimensionDir = path.join(modelDir, dimension.name);
+          const name = [fromSegment(provider.name), fromSegment(model.name), dimension.name].join('|');
+          for (const shard of await list(dimensionDir)) {
+            const shardDir = path.join(dimensionDir, shard.name);
+            for (const file of await list(shardDir)) {
+              if (!file.isFile() || file.name.endsWith('.tmp')) continue;
+              const filePath = path.join(shardDir, file.name);
+              const stats = await fs.stat(filePath).catch(() => null);
+              if (stats) entries.push({ file: filePath, model: name, lastUsedAt: stats.mtimeMs });
+            }
+          }
+        }
+      }
+    }
+    return entries;
+  }
+
+  // Drop the least recently used entries until the cache is comfortably below maxEntries
+  private async evict(): Promise<void> {
+    const entries = await this.scan();
+    const target = Math.floor(this.maxEntries * EVICTION_LOW_WATER);
+    const excess = entries.length - target;
+    this.entryCount = entries.length;
+    if (entries.length <= this.maxEntries || excess <= 0) return;
+
+    const oldest = entries.sort((a, b) => a.lastUsedAt - b.lastUsedAt).slice(0, excess);
+    for (const entry of oldest) {
+      await fs.rm(entry.file, { force: true });
+    }
+    this.entryCount -= oldest.length;
+    await this.counters.update((counters) => {
+      counters.evictions += oldest.length;
+    });
+  }
+}
+
+/**
+ * An embedding provider that answers from the cache where it can and only
+ * sends the remaining texts to the wrapped provider. A cache that can't be
+ * read or written is skipped rather than failing the request.
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    private readonly provider: EmbeddingProvider,
+    private readonly cache: EmbeddingCache
+  ) {}
+
+  get name() {
+    return this.provider.name;
+  }
+
+  get model() {
+    return this.provider.model;
+  }
+
+  get dimension() {
+    return this.provider.dimension;
+  }
+
+  get maxInputChars() {
+    return this.provider.maxInputChars;
+  }
+
+  async createEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.createEmbeddings([text]);
+    return embedding;
+  }
+
+  async createEmbeddings(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const keys = texts.map((text) => cacheKey(this.provider, text));
+    let vectors: Array<number[] | undefined>;
+    try {
+      vectors = await this.cache.get(keys);
+    } catch (error) {
+      console.error('Error reading the embedding cache, embedding without it:', error);
+      return this.provider.createEmbeddings(texts);
+    }
+
+    // Each distinct missing text is embedded once, even if it repeats within the batch
+    const missing = new Map<string, string>();
+    vectors.forEach((vector, index) => vector || missing.set(keys[index], texts[index]));
+    if (missing.size === 0) return vectors as number[][];
+
+    const embedded = await this.provider.createEmbeddings([...missing.values()]);
+    const byKey = new Map([...missing.keys()].map((key, index) => [key, embedded[index]]));
+
+    try {
+      await this.cache.put([...byKey].map(([key, vector]) => ({ key, vector })));
+    } catch (error) {
+      console.error('Error writing the embedding cache:', error);
+    }
+
+    return vectors.map((vector, index) => vector || byKey.get(keys[index])!);
+  }
+}
+
+// Singleton instance
+let embeddingCache: EmbeddingCache | null = null;
+
+export const getEmbeddingCache = (): EmbeddingCache => {
+  if (!embeddingCache) {
+    embeddingCache = new EmbeddingCache();
+  }
+  return embeddingCache;
+};
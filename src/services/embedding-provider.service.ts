@@ -0,0 +1,234 @@
+import OpenAI from 'openai';
+import axios from 'axios';
+import { createHash } from 'crypto';
+import { config } from '@/lib/config';
+import { estimateTokens, RequestBatcher, RequestScheduler } from '@/lib/request-scheduler';
+import { CachedEmbeddingProvider, getEmbeddingCache } from './embedding-cache.service';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimension: number;
+  readonly maxInputChars: number;
+  createEmbedding(text: string): Promise<number[]>;
+  createEmbeddings(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Shared input handling for providers: truncates over-long inputs to the
+ * provider's declared limit and checks returned vectors against its dimension.
+ * Requests to remote providers go through a RequestScheduler (retries, rate
+ * budgets), and calls made close together are combined into one request.
+ */
+abstract class BaseEmbeddingProvider implements EmbeddingProvider {
+  abstract readonly name: string;
+  protected readonly remote: boolean = true;
+  private batcher: RequestBatcher<string, number[]> | null = null;
+
+  constructor(
+    readonly model: string,
+    readonly dimension: number,
+    readonly maxInputChars: number
+  ) {}
+
+  protected abstract embedBatch(texts: string[]): Promise<number[][]>;
+
+  // The error reported to callers once a request has failed for good
+  protected toError(error: unknown): Error {
+    return new Error(`Failed to create embeddings: ${error instanceof Error ? error.message : error}`, { cause: error });
+  }
+
+  async createEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.createEmbeddings([text]);
+    return embedding;
+  }
+
+  async createEmbeddings(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const processedTexts = texts.map((text) => {
+      if (text.length > this.maxInputChars) {
+        console.warn(`Text truncated from ${text.length} to ${this.maxInputChars} characters for embedding`);
+        return text.substring(0, this.maxInputChars) + '...';
+      }
+      return text;
+    });
+
+    let embeddings: number[][];
+    try {
+      embeddings = this.remote ? await this.requests.add(processedTexts) : await this.embedBatch(processedTexts);
+    } catch (error) {
+      console.error(`Error creating embeddings with ${this.name}:`, error);
+      throw this.toError(error);
+    }
+
+    for (const embedding of embeddings) {
+      if (embedding.length !== this.dimension) {
+        throw new Error(
+          `Embedding provider ${this.name} (${this.model}) returned ${embedding.length}-dimensional vectors, expected ${this.dimension}`
+        );
+      }
+    }
+
+    return embeddings;
+  }
+
+  // Created on first use: subclasses set `name` after this constructor runs
+  private get requests(): RequestBatcher<string, number[]> {
+    if (!this.batcher) {
+      const scheduler = new RequestScheduler({
+        name: `Embedding (${this.name})`,
+        ...config.providerRequests,
+        requestsPerMinute: config.embedding.requestsPerMinute,
+        tokensPerMinute: config.embedding.tokensPerMinute,
+      });
+      this.batcher = new RequestBatcher(
+        (texts) => scheduler.run(() => this.embedBatch(texts), estimateTokens(texts)),
+        config.embedding.batchSize,
+        config.embedding.batchWindowMs
+      );
+    }
+    return this.batcher;
+  }
+}
+
+export class OpenAIEmbeddingProvider extends BaseEmbeddingProvider {
+  readonly name = 'openai';
+  private openai: OpenAI;
+
+  constructor(model: string, dimension: number, maxInputChars: number) {
+    super(model, dimension, maxInputChars);
+
+    if (!config.openai.apiKey) {
+      throw new Error('OPENAI_API_KEY is not set in environment variables');
+    }
+
+    this.openai = new OpenAI({
+      apiKey: config.openai.apiKey,
+      maxRetries: 0, // retried by the request scheduler
+    });
+  }
+
+  protected async embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await this.openai.embeddings.create({
+      model: this.model,
+      input: texts,
+      dimensions: this.dimension,
+    });
+
+    return response.data.map((item) => item.embedding);
+  }
+
+  protected toError(error: unknown): Error {
+    if (error instanceof Error && error.message.includes('maximum context length')) {
+      return new Error('One or more texts are too long for embedding. Please use smaller chunks.', { cause: error });
+    }
+    return super.toError(error);
+  }
+}
+
+// Any server exposing the OpenAI /embeddings API (Ollama, vLLM, LocalAI, ...)
+export class OpenAICompatibleEmbeddingProvider extends BaseEmbeddingProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+    model: string,
+    dimension: number,
+    maxInputChars: number
+  ) {
+    super(model, dimension, maxInputChars);
+
+    if (!model) {
+      throw new Error('EMBEDDING_MODEL must be set when using the openai-compatible embedding provider');
+    }
+  }
+
+  protected async embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await axios.post(
+      `${this.baseUrl.replace(/\/$/, '')}/embeddings`,
+      { model: this.model, input: texts },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+      }
+    );
+
+    const data = response.data?.data as Array<{ index: number; embedding: number[] }> | undefined;
+    if (!data) {
+      throw new Error('Response did not contain embeddings');
+    }
+
+    return [...data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+
+  protected toError(error: unknown): Error {
+    return new Error(
+      `Failed to create embeddings via ${this.baseUrl}: ${error instanceof Error ? error.message : error}`,
+      { cause: error }
+    );
+  }
+}
+
+/**
+ * Deterministic feature-hashing embedder. Words and word bigrams are hashed
+ * into buckets with a signed count, then L2-normalized. No network, no model:
+ * intended for tests and offline development.
+ */
+export class HashingEmbeddingProvider extends BaseEmbeddingProvider {
+  readonly name = 'hash';
+  protected readonly remote = false;
+
+  protected async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const features = [
+      ...words,
+      ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+    ];
+
+    for (const feature of features) {
+      const digest = createHash('sha256').update(feature).digest();
+      const bucket = digest.readUInt32BE(0) % this.dimension;
+      vector[bucket] += digest[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+}
+
+const createEmbeddingProvider = (): EmbeddingProvider => {
+  const { provider, model, dimension, maxInputChars, baseUrl, apiKey } = config.embedding;
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(model || config.openai.embeddingModel, dimension, maxInputChars);
+    case 'openai-compatible':
+      return new OpenAICompatibleEmbeddingProvider(baseUrl, apiKey, model, dimension, maxInputChars);
+    case 'hash':
+      return new HashingEmbeddingProvider(model || 'feature-hash-v1', dimension, maxInputChars);
+    default:
+      throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+};
+
+// Singleton instance
+let embeddingProvider: EmbeddingProvider | null = null;
+
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  if (!embeddingProvider) {
+    const provider = createEmbeddingProvider();
+    embeddingProvider = config.embeddingCache.enabled
+      ? new CachedEmbeddingProvider(provider, getEmbeddingCache())
+      : provider;
+  }
+  return embeddingProvider;
+};
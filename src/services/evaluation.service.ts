@@ -0,0 +1,142 @@
+import { config } from '@/lib/config';
+import { validateCollapseMode, validateDiversity } from '@/lib/diversification';
+import { validateRankingPolicyName } from '@/lib/ranking-policy';
+import { parseRerankOption } from '@/lib/rerank-options';
+import { expectedKeys, hitKeys, meanMetrics, scoreRanking } from '@/lib/retrieval-metrics';
+import { EvaluationQueryOptions, EvaluationRun, GoldenQuery, GoldenSet, QueryEvaluation } from '@/types';
+import { getEmbeddingProvider } from './embedding-provider.service';
+import { getQueryExpansionService, validateQueryMode } from './query-expansion.service';
+import { getRetrievalService } from './retrieval.service';
+
+const DEFAULT_K = 10;
+
+// Returns the problems with a golden set, empty when it can be run
+export function validateGoldenSet(set: GoldenSet): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(set?.queries) || set.queries.length === 0) {
+    return ['queries must be a non-empty array'];
+  }
+  if (set.k !== undefined && (!Number.isInteger(set.k) || set.k < 1)) {
+    errors.push('k must be a positive integer');
+  }
+
+  const ids = new Set<string>();
+  set.queries.forEach((query, index) => {
+    const label = `queries[${index}]${query?.id ? ` (${query.id})` : ''}`;
+    if (typeof query?.id !== 'string' || !query.id) errors.push(`${label}: id is required`);
+    else if (ids.has(query.id)) errors.push(`${label}: duplicate id`);
+    else ids.add(query.id);
+
+    if (typeof query?.query !== 'string' || !query.query.trim()) errors.push(`${label}: query is required`);
+    if (expectedKeys(query?.expected || {}).length === 0) {
+      errors.push(`${label}: expected needs at least one document id, handle or filename`);
+    }
+
+    const options = { ...set.options, ...query?.options };
+    const optionErrors = [
+      options.lexicalWeight !== undefined &&
+      (typeof options.lexicalWeight !== 'number' || options.lexicalWeight < 0 || options.lexicalWeight > 1)
+        ? 'lexicalWeight must be a number between 0 and 1'
+        : null,
+      parseRerankOption(options.rerank).error,
+      validateRankingPolicyName(options.rankingPolicy),
+      validateDiversity(options.diversity),
+      validateCollapseMode(options.collapse),
+      validateQueryMode(options.queryMode),
+    ];
+    optionErrors.forEach((error) => error && errors.push(`${label}: ${error}`));
+  });
+
+  return errors;
+}
+
+/**
+ * Runs a golden set through the same retrieval path as /api/query-products
+ * (query expansion, hybrid retrieval, reranking, ranking policy, diversification)
+ * and scores every query against its expected results.
+ */
+export class EvaluationService {
+  private retrievalService = getRetrievalService();
+  private queryExpansionService = getQueryExpansionService();
+
+  private get embeddingProvider() {
+    return getEmbeddingProvider();
+  }
+
+  async evaluate(set: GoldenSet, k: number = set.k ?? DEFAULT_K): Promise<EvaluationRun> {
+    const errors = validateGoldenSet(set);
+    if (errors.length > 0) {
+      throw new Error(`Invalid golden set:\n${errors.join('\n')}`);
+    }
+
+    const queries: QueryEvaluation[] = [];
+    for (const query of set.queries) {
+      queries.push(await this.evaluateQuery(query, { ...set.options, ...query.options }, k));
+    }
+
+    return {
+      ...(set.name && { name: set.name }),
+      createdAt: new Date().toISOString(),
+      k,
+      settings: this.settings(),
+      metrics: meanMetrics(queries),
+      queries,
+    };
+  }
+
+  private async evaluateQuery(
+    { id, query, expected }: GoldenQuery,
+    options: EvaluationQueryOptions,
+    k: number
+  ): Promise<QueryEvaluation> {
+    const { prioritizeProducts = true, lexicalWeight, rerank, rankingPolicy, diversity, collapse, queryMode } =
+      options;
+
+    const { embedding, expansions } = await this.queryExpansionService.prepare(query, queryMode);
+    const matches = await this.retrievalService.queryWithProductPriority(embedding, k, prioritizeProducts, {
+      query,
+      lexicalWeight,
+      rerank: parseRerankOption(rerank).rerank,
+      rankingPolicy,
+      diversity,
+      collapse,
+      expansions,
+    });
+
+    const hits = matches.map((match) => hitKeys(match.metadata));
+    const { found, missing, ...metrics } = scoreRanking(hits, expectedKeys(expected), k);
+
+    return {
+      id,
+      query,
+      ...metrics,
+      found,
+      missing,
+      // The most specific key of each hit: a product handle, else its file
+      hits: hits.map((keys) => keys.find((key) => key.startsWith('handle:')) ?? keys[keys.length - 1] ?? ''),
+    };
+  }
+
+  // What a run depends on, so a diff between runs can be explained
+  private settings(): Record<string, unknown> {
+    return {
+      vectorStore: config.vectorStore.provider,
+      embedding: { provider: this.embeddingProvider.name, model: this.embeddingProvider.model },
+      lexicalWeight: config.retrieval.lexicalWeight,
+      reranker: config.rerank.provider,
+      rankingPolicy: config.ranking.defaultPolicy,
+      queryMode: config.queryExpansion.defaultMode,
+      chunking: config.chunking,
+    };
+  }
+}
+
+// Singleton instance
+let evaluationService: EvaluationService | null = null;
+
+export const getEvaluationService = (): EvaluationService => {
+  if (!evaluationService) {
+    evaluationService = new EvaluationService();
+  }
+  return evaluationService;
+};
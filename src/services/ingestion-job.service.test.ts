@@ -0,0 +1,53 @@
+import { before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { useTestEnvironment } from '../testing/environment';
+
+const dataDir = useTestEnvironment('jobs');
+
+describe('ingestion jobs', () => {
+  let jobs: import('./ingestion-job.service').IngestionJobService;
+  let events: typeof import('../app/api/jobs/[id]/events/route');
+
+  before(async () => {
+    jobs = (await import('./ingestion-job.service')).getIngestionJobService();
+    events = await import('../app/api/jobs/[id]/events/route');
+  });
+
+  test('finds no job for names on Object.prototype', async () => {
+    await jobs.create('/tmp/upload.txt', 'upload.txt');
+
+    for (const id of ['constructor', 'toString', '__proto__']) {
+      assert.equal(await jobs.get(id), null, id);
+      assert.equal(await jobs.update(id, { progress: 50 }), null, id);
+
+      const response = await events.GET(new NextRequest(`http://localhost/api/jobs/${id}/events`), {
+        params: Promise.resolve({ id }),
+      });
+      assert.equal(response.status, 404, id);
+    }
+
+    const stored = JSON.parse(fs.readFileSync(path.join(dataDir, 'jobs.json'), 'utf-8'));
+    assert.equal(Object.keys(stored).length, 1);
+  });
+
+  test('stops streaming quietly when the client goes away', async () => {
+    const errors = mock.method(console, 'error', () => undefined);
+    const job = await jobs.create('/tmp/upload.txt', 'upload.txt');
+    const response = await events.GET(new NextRequest(`http://localhost/api/jobs/${job.id}/events`), {
+      params: Promise.resolve({ id: job.id }),
+    });
+    const reader = response.body!.getReader();
+    assert.match(new TextDecoder().decode((await reader.read()).value), /^event: progress/);
+
+    // Progress changes after the client has gone away, before the next poll
+    await reader.cancel();
+    await jobs.update(job.id, { progress: 40, message: 'Embedding...' });
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+
+    assert.equal(errors.mock.callCount(), 0);
+    errors.mock.restore();
+  });
+});
@@ -0,0 +1,110 @@
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config, DATA_DIR } from '@/lib/config';
+import { JsonFileStore } from '@/lib/json-file-store';
+import { IngestionJob } from '@/types';
+
+/**
+ * Persistent queue of ingestion jobs. Job state lives on disk so queued and
+ * interrupted jobs survive a server restart.
+ */
+export class IngestionJobService {
+  private store = new JsonFileStore<Record<string, IngestionJob>>(
+    path.join(DATA_DIR, 'jobs.json'),
+    () => ({})
+  );
+
+  async create(filePath: string, filename: string): Promise<IngestionJob> {
+    const now = new Date().toISOString();
+    const job: IngestionJob = {
+      id: uuidv4(),
+      filename,
+      filePath,
+      status: 'queued',
+      stage: 'queued',
+      progress: 0,
+      message: 'Waiting for a worker...',
+      documentIds: [],
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.update((data) => {
+      data[job.id] = job;
+    });
+
+    return job;
+  }
+
+  async get(id: string): Promise<IngestionJob | null> {
+    const data = await this.store.read();
+    // Own keys only: ids such as "constructor" come straight from the URL
+    return Object.hasOwn(data, id) ? data[id] : null;
+  }
+
+  async update(id: string, changes: Partial<IngestionJob>): Promise<IngestionJob | null> {
+    return this.store.update((data) => {
+      if (!Object.hasOwn(data, id)) return null;
+      data[id] = { ...data[id], ...changes, updatedAt: new Date().toISOString() };
+      return data[id];
+    });
+  }
+
+  // Atomically move the oldest queued job to running
+  async claimNext(): Promise<IngestionJob | null> {
+    return this.store.update((data) => {
+      const next = Object.values(data)
+        .filter((job) => job.status === 'queued')
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+
+      if (!next) return null;
+
+      const now = new Date().toISOString();
+      data[next.id] = {
+        ...next,
+        status: 'running',
+        stage: 'processing',
+        message: 'Processing...',
+        attempts: next.attempts + 1,
+        startedAt: now,
+        updatedAt: now,
+      };
+      return data[next.id];
+    });
+  }
+
+  // Jobs left running by a crashed or restarted worker go back in the queue
+  async recoverInterrupted(): Promise<number> {
+    return this.store.update((data) => {
+      let recovered = 0;
+
+      for (const job of Object.values(data)) {
+        if (job.status !== 'running') continue;
+
+        const exhausted = job.attempts >= config.jobs.maxAttempts;
+        data[job.id] = {
+          ...job,
+          status: exhausted ? 'failed' : 'queued',
+          stage: exhausted ? 'failed' : 'queued',
+          message: exhausted ? 'Job was interrupted too many times' : 'Re-queued after restart',
+          ...(exhausted && { error: 'Job was interrupted too many times' }),
+          updatedAt: new Date().toISOString(),
+        };
+        recovered++;
+      }
+
+      return recovered;
+    });
+  }
+}
+
+// Singleton instance
+let ingestionJobService: IngestionJobService | null = null;
+
+export const getIngestionJobService = (): IngestionJobService => {
+  if (!ingestionJobService) {
+    ingestionJobService = new IngestionJobService();
+  }
+  return ingestionJobService;
+};
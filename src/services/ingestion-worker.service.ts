@@ -0,0 +1,146 @@
+import { config } from '@/lib/config';
+import { IngestionJob } from '@/types';
+import { getIngestionJobService } from './ingestion-job.service';
+import { getDocumentProcessingService } from './document-processing.service';
+import { getMediaProcessingService } from './media-processing.service';
+
+const STAGE_MESSAGES: Record<string, string> = {
+  processing: 'Processing file...',
+  processing_shopify_csv: 'Parsing Shopify products...',
+  processing_webpage_data: 'Parsing webpage data...',
+  embedding: 'Creating embeddings...',
+  storing: 'Storing vectors...',
+  complete: 'Processing complete',
+};
+
+/**
+ * Runs queued ingestion jobs outside the request that enqueued them, one at a
+ * time. Started by the Next.js server (see instrumentation.ts) or standalone
+ * with `npm run worker`.
+ */
+export class IngestionWorker {
+  private jobService = getIngestionJobService();
+  private mediaService = getMediaProcessingService();
+  private started = false;
+  private draining = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    const recovered = await this.jobService.recoverInterrupted();
+    if (recovered > 0) {
+      console.log(`Recovered ${recovered} interrupted ingestion job(s)`);
+    }
+
+    // Poll so jobs enqueued by other processes are picked up too
+    this.timer = setInterval(() => void this.drain(), config.jobs.pollIntervalMs);
+    this.timer.unref?.();
+    console.log('Ingestion worker started');
+
+    void this.drain();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.started = false;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      let job = await this.jobService.claimNext();
+      while (job) {
+        await this.runJob(job);
+        job = this.started ? await this.jobService.claimNext() : null;
+      }
+    } catch (error) {
+      console.error('Error draining ingestion queue:', error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async runJob(job: IngestionJob): Promise<void> {
+    console.log(`Running ingestion job ${job.id} (${job.filename}), attempt ${job.attempts}`);
+
+    // Progress callbacks fire often; only persist meaningful changes
+    let lastStage = '';
+    let lastProgress = -1;
+    let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+    const onProgress = (stage: string, progress: number) => {
+      const rounded = Math.round(progress);
+      if (stage === lastStage && rounded - lastProgress < 1) return;
+      lastStage = stage;
+      lastProgress = rounded;
+
+      pendingUpdate = pendingUpdate
+        .then(() =>
+          this.jobService.update(job.id, {
+            stage,
+            progress: rounded,
+            message: STAGE_MESSAGES[stage] || stage,
+          })
+        )
+        .catch((error) => console.error(`Error updating progress of job ${job.id}:`, error));
+    };
+
+    try {
+      const documentProcessingService = getDocumentProcessingService();
+      await documentProcessingService.initializeVectorStore();
+
+      const document = await documentProcessingService.processStoredFile(
+        job.filePath,
+        job.filename,
+        onProgress
+      );
+      await pendingUpdate;
+
+      await this.jobService.update(job.id, {
+        status: 'completed',
+        stage: 'complete',
+        progress: 100,
+        message: document.childDocumentIds
+          ? document.content
+          : document.changes && document.changes.added + document.changes.updated + document.changes.removed === 0
+            ? 'Identical content is already indexed'
+            : 'File uploaded and processed successfully',
+        documentIds: document.childDocumentIds || [document.id],
+        ...(document.failures?.length && { failures: document.failures }),
+        completedAt: new Date().toISOString(),
+      });
+      console.log(`Ingestion job ${job.id} completed`);
+    } catch (error) {
+      await pendingUpdate;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Ingestion job ${job.id} failed:`, error);
+
+      await this.jobService.update(job.id, {
+        status: 'failed',
+        stage: 'failed',
+        message: 'Failed to process file',
+        error: errorMessage,
+        completedAt: new Date().toISOString(),
+      });
+    } finally {
+      await this.mediaService.cleanupFile(job.filePath);
+    }
+  }
+}
+
+// Singleton instance
+let ingestionWorker: IngestionWorker | null = null;
+
+export const getIngestionWorker = (): IngestionWorker => {
+  if (!ingestionWorker) {
+    ingestionWorker = new IngestionWorker();
+  }
+  return ingestionWorker;
+};
@@ -0,0 +1,44 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { LexicalIndex } from './lexical-index.service';
+import type { VectorMetadata } from './vector-store.service';
+import { temporaryDirectory } from '../testing/environment';
+
+const dataDir = temporaryDirectory('lexical');
+const metadata = { source: 'text' } as VectorMetadata;
+
+describe('lexical index', () => {
+  test('indexes terms that are also Object.prototype names', async () => {
+    const filePath = path.join(dataDir, 'prototype-terms.json');
+    await new LexicalIndex(filePath).add([
+      { id: 'chunk-1', content: 'Call the constructor, then toString and valueOf.', metadata },
+    ]);
+
+    assert.equal(Object.hasOwn(Object, 'chunk-1'), false);
+
+    // A fresh instance reads the postings back from disk
+    const index = new LexicalIndex(filePath);
+    for (const query of ['constructor', 'tostring', 'valueof']) {
+      const matches = await index.search(query, 5);
+      assert.deepEqual(matches.map((match) => match.id), ['chunk-1'], query);
+    }
+    assert.deepEqual(await index.search('hasownproperty', 5), []);
+
+    await index.remove(['chunk-1']);
+    assert.deepEqual(await index.search('constructor', 5), []);
+  });
+
+  test('ranks chunks with the rarer query terms first', async () => {
+    const index = new LexicalIndex(path.join(dataDir, 'ranking.json'));
+    await index.add([
+      { id: 'earrings', content: 'Sterling silver orchid earrings, SKU LW-120.', metadata },
+      { id: 'necklace', content: 'Sterling silver necklace with a small pendant.', metadata },
+      { id: 'elixir', content: 'Flower elixir with wild orchid essence.', metadata },
+    ]);
+
+    const matches = await index.search('silver orchid earrings', 3);
+    assert.equal(matches[0].id, 'earrings');
+    assert.deepEqual((await index.search('LW-120', 3)).map((match) => match.id), ['earrings']);
+  });
+});
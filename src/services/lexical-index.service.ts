@@ -0,0 +1,154 @@
+import path from 'path';
+import { config, DATA_DIR } from '@/lib/config';
+import { JsonFileStore } from '@/lib/json-file-store';
+import { matchesFilter } from '@/lib/vector-filter';
+import type { VectorFilter, VectorMetadata } from './vector-store.service';
+
+export interface LexicalEntry {
+  id: string;
+  content: string;
+  metadata: VectorMetadata; // same fields as the vector, so the same filters apply
+}
+
+export interface LexicalMatch {
+  id: string;
+  // BM25 divided by the query's total term weight: about 1 for a chunk holding every query term once
+  score: number;
+  metadata: VectorMetadata;
+}
+
+interface LexicalIndexData {
+  chunks: Record<string, { length: number; terms: string[]; metadata: VectorMetadata }>;
+  postings: Record<string, Record<string, number>>; // term -> chunk id -> term frequency
+  totalLength: number;
+}
+
+// BM25 parameters: term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with',
+]);
+
+// Lowercased words and numbers; SKUs like "LW-120" become "lw" and "120" on both sides
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((term) => !STOP_WORDS.has(term));
+}
+
+// Terms such as "constructor" or "tostring" are also names on Object.prototype, so lookups check own keys only
+const own = <T>(record: Record<string, T>, key: string): T | undefined =>
+  Object.hasOwn(record, key) ? record[key] : undefined;
+
+/**
+ * BM25 keyword index over the same chunks that are embedded, so exact product
+ * names and SKUs can be found even when a paraphrase is closer in vector space.
+ * Stored as an inverted index in a JSON file next to the other local data.
+ */
+export class LexicalIndex {
+  private store: JsonFileStore<LexicalIndexData>;
+
+  constructor(filePath: string = config.lexicalIndex.path || path.join(DATA_DIR, 'lexical-index.json')) {
+    this.store = new JsonFileStore<LexicalIndexData>(filePath, () => ({
+      chunks: {},
+      postings: {},
+      totalLength: 0,
+    }));
+  }
+
+  async add(entries: LexicalEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    await this.store.update((data) => {
+      for (const entry of entries) {
+        this.removeChunk(data, entry.id);
+
+        const terms = tokenize(entry.content);
+        const frequencies = new Map<string, number>();
+        terms.forEach((term) => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+
+        for (const [term, frequency] of frequencies) {
+          const postings = own(data.postings, term) || (data.postings[term] = {});
+          postings[entry.id] = frequency;
+        }
+        data.chunks[entry.id] = {
+          length: terms.length,
+          terms: [...frequencies.keys()],
+          metadata: entry.metadata,
+        };
+        data.totalLength += terms.length;
+      }
+    });
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.store.update((data) => {
+      ids.forEach((id) => this.removeChunk(data, id));
+    });
+  }
+
+  async search(query: string, topK: number, filter?: VectorFilter): Promise<LexicalMatch[]> {
+    const data = await this.store.read();
+    const chunkCount = Object.keys(data.chunks).length;
+    if (chunkCount === 0) return [];
+
+    const averageLength = data.totalLength / chunkCount || 1;
+    const scores = new Map<string, number>();
+    // Scores are divided by the query's total term weight, counting terms found nowhere as if one
+    // chunk had them, so a chunk sharing one common word with a long question scores low
+    let queryWeight = 0;
+
+    for (const term of new Set(tokenize(query))) {
+      const postings = own(data.postings, term);
+      const documentFrequency = postings ? Object.keys(postings).length : 1;
+      const idf = Math.log(1 + (chunkCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      queryWeight += idf;
+      if (!postings) continue;
+
+      for (const [id, frequency] of Object.entries(postings)) {
+        const normalization = K1 * (1 - B + (B * data.chunks[id].length) / averageLength);
+        const termScore = (idf * frequency * (K1 + 1)) / (frequency + normalization);
+        scores.set(id, (scores.get(id) || 0) + termScore);
+      }
+    }
+
+    const matches: LexicalMatch[] = [];
+    for (const [id, score] of scores) {
+      const { metadata } = data.chunks[id];
+      if (matchesFilter(metadata, filter)) {
+        matches.push({ id, score: score / queryWeight, metadata });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  private removeChunk(data: LexicalIndexData, id: string): void {
+    const chunk = own(data.chunks, id);
+    if (!chunk) return;
+
+    for (const term of chunk.terms) {
+      const postings = own(data.postings, term);
+      if (!postings) continue;
+      delete postings[id];
+      if (Object.keys(postings).length === 0) {
+        delete data.postings[term];
+      }
+    }
+    data.totalLength -= chunk.length;
+    delete data.chunks[id];
+  }
+}
+
+// Singleton instance
+let lexicalIndex: LexicalIndex | null = null;
+
+export const getLexicalIndex = (): LexicalIndex => {
+  if (!lexicalIndex) {
+    lexicalIndex = new LexicalIndex();
+  }
+  return lexicalIndex;
+};
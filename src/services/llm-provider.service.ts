@@ -0,0 +1,296 @@
+import OpenAI from 'openai';
+import axios from 'axios';
+import { config } from '@/lib/config';
+import { ChatMessage } from '@/types';
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+  // Yields the response text piece by piece as the model produces it
+  stream(messages: ChatMessage[], options?: CompletionOptions): AsyncIterable<string>;
+}
+
+export class OpenAILLMProvider implements LLMProvider {
+  readonly name = 'openai';
+  private openai: OpenAI;
+
+  constructor(readonly model: string) {
+    if (!config.openai.apiKey) {
+      throw new Error('OPENAI_API_KEY is not set in environment variables');
+    }
+
+    this.openai = new OpenAI({
+      apiKey: config.openai.apiKey,
+    });
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    try {
+      const response = await this.openai.chat.completions.create({
+        model: this.model,
+        messages,
+        temperature: options.temperature ?? config.llm.temperature,
+        max_tokens: options.maxTokens ?? config.llm.maxTokens,
+      });
+
+      return response.choices[0]?.message?.content?.trim() || '';
+    } catch (error) {
+      console.error('Error creating chat completion:', error);
+      throw new Error('Failed to generate a response');
+    }
+  }
+
+  async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncIterable<string> {
+    let stream;
+    try {
+      stream = await this.openai.chat.completions.create({
+        model: this.model,
+        messages,
+        temperature: options.temperature ?? config.llm.temperature,
+        max_tokens: options.maxTokens ?? config.llm.maxTokens,
+        stream: true,
+      });
+    } catch (error) {
+      console.error('Error creating chat completion stream:', error);
+      throw new Error('Failed to generate a response');
+    }
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+}
+
+// Any server exposing the OpenAI /chat/completions API (Ollama, vLLM, LocalAI, ...)
+export class OpenAICompatibleLLMProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+    readonly model: string
+  ) {
+    if (!model) {
+      throw new Error('LLM_MODEL must be set when using the openai-compatible LLM provider');
+    }
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    try {
+      const response = await axios.post(
+        `${this.baseUrl.replace(/\/$/, '')}/chat/completions`,
+        {
+          model: this.model,
+          messages,
+          temperature: options.temperature ?? config.llm.temperature,
+          max_tokens: options.maxTokens ?? config.llm.maxTokens,
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+          },
+        }
+      );
+
+      const content = response.data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('Response did not contain a message');
+      }
+      return content.trim();
+    } catch (error) {
+      console.error('Error creating chat completion via OpenAI-compatible endpoint:', error);
+      throw new Error(`Failed to generate a response via ${this.baseUrl}`);
+    }
+  }
+
+  async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncIterable<string> {
+    let body: AsyncIterable<Buffer>;
+    try {
+      const response = await axios.post(
+        `${this.baseUrl.replace(/\/$/, '')}/chat/completions`,
+        {
+          model: this.model,
+          messages,
+          temperature: options.temperature ?? config.llm.temperature,
+          max_tokens: options.maxTokens ?? config.llm.maxTokens,
+          stream: true,
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+          },
+          responseType: 'stream',
+        }
+      );
+      body = response.data;
+    } catch (error) {
+      console.error('Error creating chat completion stream via OpenAI-compatible endpoint:', error);
+      throw new Error(`Failed to generate a response via ${this.baseUrl}`);
+    }
+
+    // The response is Server-Sent Events: `data: {chunk}` lines ending with `data: [DONE]`
+    let buffered = '';
+    for await (const data of body) {
+      buffered += data.toString('utf-8');
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'what', 'which', 'who', 'how', 'does', 'did', 'can',
+  'you', 'your', 'with', 'about', 'this', 'that', 'from', 'have', 'has', 'there', 'any',
+  'tell', 'please', 'when', 'where', 'why', 'into', 'our', 'their', 'they', 'its',
+]);
+
+const contentWords = (text: string): Set<string> =>
+  new Set(
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+      (word) => word.length > 2 && !STOP_WORDS.has(word)
+    )
+  );
+
+/**
+ * Deterministic stand-in for a chat model, for tests and offline development.
+ * It reads the numbered sources (`[n] title` followed by text) and the
+ * `Question:` line from the last user message, and answers with the source
+ * sentences that share the most words with the question, citing them. With no
+ * overlap at all it says it doesn't know.
+ *
+ * Query rewriting prompts (a `Follow-up:` line after the conversation) are
+ * answered by prefixing the follow-up with the previous user message, and
+ * reranking prompts (`Query:` then numbered `Passages:`) by rating each
+ * passage 0-10 on the share of query words it contains. Query expansion
+ * prompts get fixed templates around the query: paraphrases like
+ * "products for sleep" and a one-paragraph hypothetical answer.
+ */
+export class StubLLMProvider implements LLMProvider {
+  readonly name = 'stub';
+
+  constructor(readonly model: string) {}
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    const prompt = [...messages].reverse().find((message) => message.role === 'user')?.content || '';
+
+    const followUp = /^Follow-up:\s*(.*)$/m.exec(prompt);
+    if (followUp) {
+      const previousQuestions = [...prompt.matchAll(/^user:\s*(.*)$/gm)];
+      const previous = previousQuestions[previousQuestions.length - 1]?.[1];
+      return previous ? `${previous} ${followUp[1]}` : followUp[1];
+    }
+
+    const paraphrase = /^Write (\d+) alternative search queries for:\s*(.*)$/m.exec(prompt);
+    if (paraphrase) {
+      const query = paraphrase[2].trim();
+      return [`products for ${query}`, `help with ${query}`, `what is good for ${query}`, `${query} remedies`]
+        .slice(0, Number(paraphrase[1]))
+        .map((text, index) => `${index + 1}. ${text}`)
+        .join('\n');
+    }
+
+    const hypothetical = /^Write a short passage answering:\s*(.*)$/m.exec(prompt);
+    if (hypothetical) {
+      const query = hypothetical[1].trim();
+      return `Looking for ${query}? This product is made for ${query}. Customers use it to help with ${query}.`;
+    }
+
+    const rerankQuery = /^Query:\s*(.*)\n\nPassages:\n/m.exec(prompt);
+    if (rerankQuery) {
+      const queryWords = contentWords(rerankQuery[1]);
+      const passages = prompt.slice(rerankQuery.index + rerankQuery[0].length).split(/^(?=\[\d+\] )/m);
+      return passages
+        .map((passage) => /^\[(\d+)\] ([\s\S]*)$/.exec(passage))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map(([, number, text]) => {
+          const words = contentWords(text);
+          const overlap = [...queryWords].filter((word) => words.has(word)).length;
+          return `[${number}] ${queryWords.size ? Math.round((10 * overlap) / queryWords.size) : 0}`;
+        })
+        .join('\n');
+    }
+    const questionMatch = /^Question:\s*([\s\S]*)$/m.exec(prompt);
+    const question = contentWords(questionMatch ? questionMatch[1] : prompt);
+    const sourceText = questionMatch ? prompt.slice(0, questionMatch.index) : prompt;
+
+    const scored: Array<{ number: number; sentence: string; score: number }> = [];
+    for (const block of sourceText.split(/^(?=\[\d+\] )/m)) {
+      const header = /^\[(\d+)\] [^\n]*\n/.exec(block);
+      if (!header) continue;
+
+      // Headings only label the text below them, they don't answer anything
+      const body = block.slice(header[0].length).replace(/^#{1,6} .*$/gm, '');
+      const sentences = body.match(/[^.!?\n]+[.!?]?/g) || [];
+      for (const sentence of sentences) {
+        const words = contentWords(sentence);
+        const score = [...question].filter((word) => words.has(word)).length;
+        if (score > 0) {
+          scored.push({ number: Number(header[1]), sentence: sentence.trim(), score });
+        }
+      }
+    }
+
+    if (scored.length === 0) {
+      return "I don't know.";
+    }
+
+    // Best sentence, plus the best one from a different source if there is one
+    scored.sort((a, b) => b.score - a.score || a.number - b.number);
+    const picked = [scored[0], scored.find((item) => item.number !== scored[0].number)].filter(
+      (item): item is { number: number; sentence: string; score: number } => item !== undefined
+    );
+
+    return picked
+      .map((item) => `${item.sentence.replace(/([\p{L}\p{N}])$/u, '$1.')} [${item.number}]`)
+      .join(' ');
+  }
+
+  async *stream(messages: ChatMessage[]): AsyncIterable<string> {
+    const response = await this.complete(messages);
+    for (const token of response.match(/\S+\s*/g) || []) {
+      yield token;
+    }
+  }
+}
+
+const createLLMProvider = (): LLMProvider => {
+  const { provider, model, baseUrl, apiKey } = config.llm;
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAILLMProvider(model || config.openai.chatModel);
+    case 'openai-compatible':
+      return new OpenAICompatibleLLMProvider(baseUrl, apiKey, model);
+    case 'stub':
+      return new StubLLMProvider(model || 'extractive-stub');
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+};
+
+// Singleton instance
+let llmProvider: LLMProvider | null = null;
+
+export const getLLMProvider = (): LLMProvider => {
+  if (!llmProvider) {
+    llmProvider = createLLMProvider();
+  }
+  return llmProvider;
+};
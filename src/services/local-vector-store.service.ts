@@ -0,0 +1,131 @@
+import path from 'path';
+import { config, DATA_DIR } from '@/lib/config';
+import { JsonFileStore } from '@/lib/json-file-store';
+import { matchesFilter } from '@/lib/vector-filter';
+import type {
+  VectorMatch,
+  VectorMetadata,
+  VectorQuery,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+} from './vector-store.service';
+
+interface LocalVectorData {
+  dimension: number | null;
+  records: Record<string, { values: number[]; metadata: VectorMetadata }>;
+}
+
+/**
+ * File-backed vector store for offline development and CI. Keeps every vector
+ * in memory and answers queries with a brute-force cosine similarity scan.
+ */
+export class LocalVectorStore implements VectorStore {
+  readonly name = 'local';
+  private store: JsonFileStore<LocalVectorData>;
+
+  constructor(filePath: string = config.vectorStore.localPath || path.join(DATA_DIR, 'vectors.json')) {
+    this.store = new JsonFileStore<LocalVectorData>(filePath, () => ({
+      dimension: null,
+      records: {},
+    }));
+  }
+
+  async initialize(dimension: number): Promise<void> {
+    const data = await this.store.read();
+    if (data.dimension === null) {
+      await this.store.update((current) => {
+        current.dimension = current.dimension ?? dimension;
+      });
+    }
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    await this.store.update((data) => {
+      for (const record of records) {
+        if (data.dimension === null) {
+          data.dimension = record.values.length;
+        } else if (record.values.length !== data.dimension) {
+          throw new Error(
+            `Vector dimension ${record.values.length} does not match local store dimension ${data.dimension}`
+          );
+        }
+        data.records[record.id] = { values: record.values, metadata: record.metadata };
+      }
+    });
+  }
+
+  async query(query: VectorQuery): Promise<VectorMatch[]> {
+    const data = await this.store.read();
+    const queryNorm = norm(query.vector);
+    const matches: VectorMatch[] = [];
+
+    for (const [id, record] of Object.entries(data.records)) {
+      if (!matchesFilter(record.metadata, query.filter)) continue;
+
+      matches.push({
+        id,
+        score: cosineSimilarity(query.vector, queryNorm, record.values),
+        metadata: record.metadata,
+        ...(query.includeValues && { values: record.values }),
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, query.topK);
+  }
+
+  async fetch(ids: string[]): Promise<VectorRecord[]> {
+    const data = await this.store.read();
+    return ids.flatMap((id) => (Object.hasOwn(data.records, id) ? [{ id, ...data.records[id] }] : []));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.store.update((data) => {
+      for (const id of ids) {
+        delete data.records[id];
+      }
+    });
+  }
+
+  async deleteAll(): Promise<void> {
+    await this.store.update((data) => {
+      data.records = {};
+    });
+  }
+
+  async describeStats(): Promise<VectorStoreStats> {
+    const data = await this.store.read();
+    return {
+      totalRecordCount: Object.keys(data.records).length,
+      dimension: data.dimension,
+    };
+  }
+}
+
+function norm(vector: number[]): number {
+  let sum = 0;
+  for (const value of vector) sum += value * value;
+  return Math.sqrt(sum);
+}
+
+function cosineSimilarity(a: number[], aNorm: number, b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  for (let i = 0; i < length; i++) dot += a[i] * b[i];
+  const denominator = aNorm * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+// Singleton instance
+let localVectorStore: LocalVectorStore | null = null;
+
+export const getLocalVectorStore = (): LocalVectorStore => {
+  if (!localVectorStore) {
+    localVectorStore = new LocalVectorStore();
+  }
+  return localVectorStore;
+};
@@ -1,7 +1,11 @@
 import { promisify } from 'util';
 import { exec } from 'child_process';
 import fs from 'fs/promises';
+import { createWriteStream } from 'fs';
 import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
 import { UPLOAD_DIR } from '@/lib/config';
 
 const execAsync = promisify(exec);
@@ -172,6 +176,20 @@ export class MediaProcessingService {
     await fs.writeFile(filePath, buffer);
     return filePath;
   }
+
+  // Stream an upload to disk without holding the whole file in memory
+  async saveUploadedStream(
+    stream: ReadableStream<Uint8Array>,
+    filename: string
+  ): Promise<string> {
+    await this.ensureUploadDir();
+    const filePath = path.join(UPLOAD_DIR, `${Date.now()}-${path.basename(filename)}`);
+    await pipeline(
+      Readable.fromWeb(stream as WebReadableStream<Uint8Array>),
+      createWriteStream(filePath)
+    );
+    return filePath;
+  }
 }
 
 // Singleton instance
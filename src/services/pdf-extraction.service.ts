@@ -0,0 +1,357 @@
+export interface PdfPage {
+  pageNumber: number; // 1-based
+  text: string;
+}
+
+// A run of text as positioned by pdf2json (x/y/width in page units, 1 unit = 1/16")
+interface TextItem {
+  x: number;
+  y: number;
+  width: number;
+  text: string;
+  fontSize: number;
+  bold: boolean;
+}
+
+interface TextLine {
+  y: number;
+  items: TextItem[];
+}
+
+const POINTS_PER_UNIT = 16;
+// Horizontal gap (in page units) that separates table cells rather than words
+const CELL_GAP = 1.2;
+// Items closer than this vertically are on the same line
+const LINE_TOLERANCE = 0.3;
+const MAX_HEADING_LENGTH = 120;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Extracts PDF text page by page while keeping the layout readable:
+ * two-column pages are read column by column, lines set in a larger (or bold)
+ * font become markdown-style headings, and runs of lines with aligned cells
+ * become `| cell | cell |` table rows.
+ */
+export class PdfExtractionService {
+  async extractPages(buffer: Buffer, filename: string): Promise<PdfPage[]> {
+    console.log(`Processing PDF file: ${filename}, buffer size: ${buffer.length} bytes`);
+
+    let pdfData: any;
+    try {
+      pdfData = await this.parse(buffer);
+    } catch (error) {
+      console.error('Error parsing PDF:', error);
+      throw new Error(`Failed to extract text from PDF: ${filename}. The file may be corrupted or password-protected`);
+    }
+
+    const rawPages: any[] = pdfData.Pages || [];
+    console.log(`PDF parsed successfully: ${rawPages.length} pages`);
+
+    const itemsByPage = rawPages.map((page) => this.readItems(page));
+    const headingLevels = this.headingLevels(itemsByPage.flat());
+
+    const pages = itemsByPage.map((items, index) => ({
+      pageNumber: index + 1,
+      text: this.renderPage(items, rawPages[index].Width || 0, headingLevels),
+    }));
+
+    const textLength = pages.reduce((total, page) => total + page.text.length, 0);
+    if (textLength === 0) {
+      throw new Error(`PDF appears to be empty or contains no extractable text: ${filename}`);
+    }
+
+    console.log(`PDF text extracted successfully: ${textLength} characters`);
+    return pages.filter((page) => page.text.length > 0);
+  }
+
+  private async parse(buffer: Buffer): Promise<any> {
+    const PDFParser = (await import('pdf2json')).default;
+    const pdfParser = new PDFParser();
+
+    // pdf2json reads the whole underlying ArrayBuffer, so small pooled Buffers
+    // (non-zero byteOffset) must be copied into one of their own
+    const ownBuffer = Buffer.allocUnsafeSlow(buffer.length);
+    buffer.copy(ownBuffer);
+
+    return new Promise((resolve, reject) => {
+      pdfParser.on('pdfParser_dataReady', resolve);
+      pdfParser.on('pdfParser_dataError', (error: any) => reject(error?.parserError || error));
+      pdfParser.parseBuffer(ownBuffer);
+    });
+  }
+
+  private readItems(page: any): TextItem[] {
+    const items: TextItem[] = [];
+
+    for (const text of page.Texts || []) {
+      const runs: any[] = text.R || [];
+      const content = runs
+        .map((run) => {
+          try {
+            return decodeURIComponent(run.T || '');
+          } catch {
+            return run.T || '';
+          }
+        })
+        .join('');
+      if (!content.trim()) continue;
+
+      const style = runs[0]?.TS || [];
+      const fontSize = style[1] || 0;
+      items.push({
+        x: text.x,
+        y: text.y,
+        // pdf2json reports width in points; estimate it when missing
+        width: text.w ? text.w / POINTS_PER_UNIT : (content.length * fontSize * 0.5) / POINTS_PER_UNIT,
+        text: content,
+        fontSize,
+        bold: style[2] === 1,
+      });
+    }
+
+    return items;
+  }
+
+  // Map font sizes larger than the body text to heading levels 1-3
+  private headingLevels(items: TextItem[]): { bodySize: number; levels: Map<number, number> } {
+    const charsBySize = new Map<number, number>();
+    for (const item of items) {
+      charsBySize.set(item.fontSize, (charsBySize.get(item.fontSize) || 0) + item.text.length);
+    }
+
+    const bodySize = [...charsBySize.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+    const headingSizes = [...charsBySize.keys()]
+      .filter((size) => size >= bodySize * 1.15)
+      .sort((a, b) => b - a);
+
+    const levels = new Map<number, number>();
+    headingSizes.forEach((size, index) => levels.set(size, Math.min(index + 1, 3)));
+    return { bodySize, levels };
+  }
+
+  private renderPage(
+    items: TextItem[],
+    pageWidth: number,
+    headings: { bodySize: number; levels: Map<number, number> }
+  ): string {
+    if (items.length === 0) return '';
+
+    const lines = this.groupLines(items);
+    const gutter = this.findColumnGutter(lines, pageWidth);
+
+    // Reading order: full-width lines in place, column blocks left column first
+    const regions: TextLine[][] = [];
+    let left: TextItem[] = [];
+    let right: TextItem[] = [];
+    const flushColumns = () => {
+      if (left.length) regions.push(this.groupLines(left));
+      if (right.length) regions.push(this.groupLines(right));
+      left = [];
+      right = [];
+    };
+
+    if (gutter === null) {
+      regions.push(lines);
+    } else {
+      let fullWidth: TextLine[] = [];
+      for (const line of lines) {
+        const spansGutter = line.items.some((item) => item.x < gutter && item.x + item.width > gutter);
+        if (spansGutter) {
+          flushColumns();
+          fullWidth.push(line);
+        } else {
+          if (fullWidth.length) regions.push(fullWidth);
+          fullWidth = [];
+          for (const item of line.items) {
+            (item.x < gutter ? left : right).push(item);
+          }
+        }
+      }
+      flushColumns();
+      if (fullWidth.length) regions.push(fullWidth);
+    }
+
+    return regions
+      .map((region) => this.renderRegion(region, headings))
+      .filter(Boolean)
+      .join('\n\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private groupLines(items: TextItem[]): TextLine[] {
+    const lines: TextLine[] = [];
+
+    for (const item of [...items].sort((a, b) => a.y - b.y || a.x - b.x)) {
+      const line = lines[lines.length - 1];
+      if (line && Math.abs(item.y - line.y) <= LINE_TOLERANCE) {
+        line.items.push(item);
+      } else {
+        lines.push({ y: item.y, items: [item] });
+      }
+    }
+
+    lines.forEach((line) => line.items.sort((a, b) => a.x - b.x));
+    return lines;
+  }
+
+  /**
+   * Look for an empty vertical band in the middle of the page that separates
+   * two columns of running text. Tables also have empty bands, so the text to
+   * the left of the band must mostly reach it, as it does in a filled column.
+   */
+  private findColumnGutter(lines: TextLine[], pageWidth: number): number | null {
+    if (!pageWidth) return null;
+
+    const narrowItems = lines
+      .flatMap((line) => line.items)
+      .filter((item) => item.width < pageWidth * 0.6)
+      .sort((a, b) => a.x - b.x);
+    if (narrowItems.length === 0) return null;
+
+    // Merge the horizontal extents of the items and find the widest gap in the middle
+    let gutter: number | null = null;
+    let widestGap = 0.5;
+    let coveredTo = narrowItems[0].x + narrowItems[0].width;
+    for (const item of narrowItems.slice(1)) {
+      const gap = item.x - coveredTo;
+      const center = coveredTo + gap / 2;
+      if (gap > widestGap && center > pageWidth * 0.3 && center < pageWidth * 0.7) {
+        widestGap = gap;
+        gutter = center;
+      }
+      coveredTo = Math.max(coveredTo, item.x + item.width);
+    }
+    if (gutter === null) return null;
+
+    const column = gutter;
+    const sideBySide = lines.filter(
+      (line) =>
+        line.items.some((item) => item.x + item.width <= column) &&
+        line.items.some((item) => item.x >= column)
+    );
+    if (sideBySide.length < 3) return null;
+
+    const leftMargin = Math.min(...narrowItems.map((item) => item.x));
+    const fill = median(
+      sideBySide.map((line) => {
+        const leftEdge = Math.max(
+          ...line.items.filter((item) => item.x < column).map((item) => item.x + item.width)
+        );
+        return (leftEdge - leftMargin) / (column - leftMargin);
+      })
+    );
+
+    return fill >= 0.6 ? gutter : null;
+  }
+
+  private renderRegion(
+    lines: TextLine[],
+    headings: { bodySize: number; levels: Map<number, number> }
+  ): string {
+    const spacing = median(lines.slice(1).map((line, index) => line.y - lines[index].y));
+    const output: string[] = [];
+    let table: string[][] = [];
+
+    const flushTable = () => {
+      if (table.length >= 2) {
+        output.push('', ...this.renderTable(table), '');
+      } else {
+        // A single line with wide gaps is just spaced-out text
+        table.forEach((cells) => output.push(cells.join(' ')));
+      }
+      table = [];
+    };
+
+    lines.forEach((line, index) => {
+      if (index > 0 && spacing > 0 && line.y - lines[index - 1].y > spacing * 1.5) {
+        flushTable();
+        output.push('');
+      }
+
+      const cells = this.splitCells(line.items);
+      if (cells.length > 1) {
+        table.push(cells);
+        return;
+      }
+      flushTable();
+
+      const text = cells[0];
+      const level = this.headingLevel(line.items, text, headings);
+      if (level) {
+        output.push('', `${'#'.repeat(level)} ${text}`, '');
+      } else {
+        output.push(text);
+      }
+    });
+    flushTable();
+
+    return output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  }
+
+  // Join the items of a line into text, splitting it wherever a wide gap suggests a new cell
+  private splitCells(items: TextItem[]): string[] {
+    const cells: string[] = [];
+    let current = '';
+    let previousEnd: number | null = null;
+
+    for (const item of items) {
+      if (previousEnd !== null) {
+        const gap = item.x - previousEnd;
+        if (gap > CELL_GAP) {
+          cells.push(current.trim());
+          current = '';
+        } else if (gap > 0.1 && !current.endsWith(' ') && !item.text.startsWith(' ')) {
+          current += ' ';
+        }
+      }
+      current += item.text;
+      previousEnd = item.x + item.width;
+    }
+    cells.push(current.trim());
+
+    return cells.map((cell) => cell.replace(/\s+/g, ' '));
+  }
+
+  private headingLevel(
+    items: TextItem[],
+    text: string,
+    headings: { bodySize: number; levels: Map<number, number> }
+  ): number {
+    if (!text || text.length > MAX_HEADING_LENGTH) return 0;
+
+    const size = Math.max(...items.map((item) => item.fontSize));
+    const level = headings.levels.get(size);
+    if (level) return level;
+
+    // Short bold lines at body size read as the lowest heading level
+    const allBold = items.every((item) => item.bold);
+    if (allBold && size >= headings.bodySize && text.length <= 80 && !/[.,;]$/.test(text)) {
+      return Math.min(headings.levels.size + 1, 3);
+    }
+    return 0;
+  }
+
+  private renderTable(rows: string[][]): string[] {
+    const width = Math.max(...rows.map((cells) => cells.length));
+    const format = (cells: string[]) =>
+      `| ${Array.from({ length: width }, (_, index) => (cells[index] || '').replace(/\|/g, '\\|')).join(' | ')} |`;
+
+    return [format(rows[0]), `|${' --- |'.repeat(width)}`, ...rows.slice(1).map(format)];
+  }
+}
+
+// Singleton instance
+let pdfExtractionService: PdfExtractionService | null = null;
+
+export const getPdfExtractionService = (): PdfExtractionService => {
+  if (!pdfExtractionService) {
+    pdfExtractionService = new PdfExtractionService();
+  }
+  return pdfExtractionService;
+};
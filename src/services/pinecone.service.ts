@@ -1,8 +1,20 @@
 import { Pinecone } from '@pinecone-database/pinecone';
 import { config } from '@/lib/config';
-import { ProcessedDocument } from '@/types';
-
-export class PineconeService {
+import type {
+  VectorMatch,
+  VectorMetadata,
+  VectorQuery,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+} from './vector-store.service';
+
+const UPSERT_BATCH_SIZE = 100;
+const DELETE_BATCH_SIZE = 1000;
+const FETCH_BATCH_SIZE = 100; // ids go in the request URL
+
+export class PineconeService implements VectorStore {
+  readonly name = 'pinecone';
   private pinecone: Pinecone;
   private indexName: string;
 
@@ -21,7 +33,7 @@ export class PineconeService {
     }
   }
 
-  async initialize(): Promise<void> {
+  async initialize(dimension: number): Promise<void> {
     try {
       // Check if index exists
       const indexes = await this.pinecone.listIndexes();
@@ -30,10 +42,10 @@ export class PineconeService {
       );
 
       if (!indexExists) {
-        // Create index with 1024 dimensions
+        // Create index sized for the active embedding provider
         await this.pinecone.createIndex({
           name: this.indexName,
-          dimension: config.pinecone.vectorDimension,
+          dimension,
           metric: 'cosine',
           spec: {
             serverless: {
@@ -73,172 +85,99 @@ export class PineconeService {
     throw new Error('Pinecone index failed to become ready');
   }
 
-  async upsertDocument(
-    document: ProcessedDocument,
-    embedding: number[]
-  ): Promise<void> {
+  async upsert(records: VectorRecord[]): Promise<void> {
     try {
       const index = this.pinecone.index(this.indexName);
 
-      await index.upsert([
-        {
-          id: document.id,
-          values: embedding,
-          metadata: {
-            filename: document.filename,
-            content: document.content.substring(0, 1000), // Store first 1000 chars
-            source: document.metadata.source,
-            originalFormat: document.metadata.originalFormat,
-            uploadedAt: document.metadata.uploadedAt.toISOString(),
-            // Include all Shopify-specific metadata
-            ...(document.metadata.productType && { productType: document.metadata.productType }),
-            ...(document.metadata.productHandle && { productHandle: document.metadata.productHandle }),
-            ...(document.metadata.productTitle && { productTitle: document.metadata.productTitle }),
-            ...(document.metadata.vendor && { vendor: document.metadata.vendor }),
-            ...(document.metadata.type && { type: document.metadata.type }),
-            ...(document.metadata.tags && { tags: document.metadata.tags }),
-            ...(document.metadata.price && { price: document.metadata.price }),
-            ...(document.metadata.sku && { sku: document.metadata.sku }),
-            ...(document.metadata.inStock !== undefined && { inStock: document.metadata.inStock }),
-            ...(document.metadata.priorityScore !== undefined && { priorityScore: document.metadata.priorityScore }),
-          },
-        },
-      ]);
+      // Pinecone limits the size of a single upsert request
+      for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+        await index.upsert(records.slice(i, i + UPSERT_BATCH_SIZE));
+      }
     } catch (error) {
-      console.error('Error upserting document to Pinecone:', error);
+      console.error('Error upserting vectors to Pinecone:', error);
       throw error;
     }
   }
 
-  async deleteDocument(documentId: string): Promise<void> {
+  async delete(ids: string[]): Promise<void> {
     try {
       const index = this.pinecone.index(this.indexName);
-      await index.deleteOne(documentId);
+
+      for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+        await index.deleteMany(ids.slice(i, i + DELETE_BATCH_SIZE));
+      }
     } catch (error) {
-      console.error('Error deleting document from Pinecone:', error);
+      console.error('Error deleting vectors from Pinecone:', error);
       throw error;
     }
   }
 
-  async query(
-    embedding: number[],
-    topK: number = 5
-  ): Promise<any[]> {
+  async deleteAll(): Promise<void> {
+    try {
+      const index = this.pinecone.index(this.indexName);
+      await index.deleteAll();
+    } catch (error) {
+      console.error('Error clearing Pinecone index:', error);
+      throw error;
+    }
+  }
+
+  async query(query: VectorQuery): Promise<VectorMatch[]> {
     try {
       const index = this.pinecone.index(this.indexName);
       const queryResponse = await index.query({
-        vector: embedding,
-        topK,
+        vector: query.vector,
+        topK: query.topK,
         includeMetadata: true,
+        includeValues: query.includeValues ?? false,
+        ...(query.filter && { filter: query.filter }),
       });
 
-      return queryResponse.matches || [];
+      return (queryResponse.matches || []).map((match) => ({
+        id: match.id,
+        score: match.score || 0,
+        metadata: match.metadata as VectorMetadata | undefined,
+        ...(query.includeValues && { values: match.values }),
+      }));
     } catch (error) {
       console.error('Error querying Pinecone:', error);
       throw error;
     }
   }
 
-  // New method for product-aware queries with prioritization
-  async queryWithProductPriority(
-    embedding: number[],
-    topK: number = 10,
-    prioritizeProducts: boolean = true
-  ): Promise<any[]> {
+  async fetch(ids: string[]): Promise<VectorRecord[]> {
     try {
       const index = this.pinecone.index(this.indexName);
-      
-      if (prioritizeProducts) {
-        // First, try to get Shopify products
-        const productQuery = await index.query({
-          vector: embedding,
-          topK: Math.ceil(topK * 0.6), // Get 60% from products
-          includeMetadata: true,
-          filter: {
-            source: { $eq: 'shopify' }
-          }
-        });
-
-        // Then get other relevant content
-        const generalQuery = await index.query({
-          vector: embedding,
-          topK: Math.ceil(topK * 0.4), // Get 40% from general content
-          includeMetadata: true,
-          filter: {
-            source: { $ne: 'shopify' }
-          }
-        });
-
-        // Combine results with products first
-        const allResults = [...(productQuery.matches || []), ...(generalQuery.matches || [])];
-        
-        // Sort by combined score (similarity + priority)
-        return allResults.sort((a, b) => {
-          const scoreA = (a.score || 0) + ((a.metadata?.priorityScore as number || 0) / 1000);
-          const scoreB = (b.score || 0) + ((b.metadata?.priorityScore as number || 0) / 1000);
-          return scoreB - scoreA;
-        }).slice(0, topK);
-      } else {
-        // Standard query without product prioritization
-        return this.query(embedding, topK);
+      const records: VectorRecord[] = [];
+
+      for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+        const response = await index.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+        for (const record of Object.values(response.records || {})) {
+          records.push({
+            id: record.id,
+            values: record.values || [],
+            metadata: (record.metadata || {}) as VectorMetadata,
+          });
+        }
       }
+      return records;
     } catch (error) {
-      console.error('Error querying Pinecone with product priority:', error);
+      console.error('Error fetching vectors from Pinecone:', error);
       throw error;
     }
   }
 
-  // Query specifically for products
-  async queryProducts(
-    embedding: number[],
-    topK: number = 5,
-    filters?: {
-      vendor?: string;
-      type?: string;
-      inStock?: boolean;
-      minPrice?: number;
-      maxPrice?: number;
-    }
-  ): Promise<any[]> {
+  async describeStats(): Promise<VectorStoreStats> {
     try {
       const index = this.pinecone.index(this.indexName);
-      
-      // Build filter object
-      const filter: any = {
-        source: { $eq: 'shopify' }
-      };
+      const stats = await index.describeIndexStats();
 
-      if (filters) {
-        if (filters.vendor) {
-          filter.vendor = { $eq: filters.vendor };
-        }
-        if (filters.type) {
-          filter.type = { $eq: filters.type };
-        }
-        if (filters.inStock !== undefined) {
-          filter.inStock = { $eq: filters.inStock };
-        }
-        if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
-          filter.price = {};
-          if (filters.minPrice !== undefined) {
-            filter.price.$gte = filters.minPrice.toString();
-          }
-          if (filters.maxPrice !== undefined) {
-            filter.price.$lte = filters.maxPrice.toString();
-          }
-        }
-      }
-
-      const queryResponse = await index.query({
-        vector: embedding,
-        topK,
-        includeMetadata: true,
-        filter
-      });
-
-      return queryResponse.matches || [];
+      return {
+        totalRecordCount: stats.totalRecordCount || 0,
+        dimension: stats.dimension ?? null,
+      };
     } catch (error) {
-      console.error('Error querying products from Pinecone:', error);
+      console.error('Error describing Pinecone index stats:', error);
       throw error;
     }
   }
@@ -0,0 +1,136 @@
+import { config } from '@/lib/config';
+import { ExpandedQuery, QueryMode } from '@/types';
+import { getEmbeddingProvider } from './embedding-provider.service';
+import { getLLMProvider } from './llm-provider.service';
+
+export const QUERY_MODES: QueryMode[] = ['standard', 'multi-query', 'hyde'];
+
+// A query ready for RetrievalService: the embedding to search with and any extra phrasings
+export interface PreparedQuery {
+  embedding: number[];
+  expansions: Array<{ query: string; embedding: number[] }>;
+  // Everything that was searched for, to show in responses
+  expandedQueries: ExpandedQuery[];
+}
+
+const MULTI_QUERY_PROMPT = `You help a search engine for a product and document catalogue find more results.
+Rephrase the user's search query in different words: use synonyms, name the need or symptom behind it,
+and spell out what short queries leave implicit. Reply with one query per line and nothing else.`;
+
+const HYDE_PROMPT = `Write a short passage, like a product description or help article excerpt, that answers the user's search query.
+It is used to find similar real content, so it may be plausible rather than accurate. Reply with the passage only.`;
+
+const MAX_PARAPHRASE_LENGTH = 300;
+
+/**
+ * Opt-in query expansion for short or vague queries, which embed poorly:
+ * - 'multi-query' asks the LLM for paraphrases and searches for all of them,
+ *   merging the results
+ * - 'hyde' embeds a hypothetical answer written by the LLM instead of the
+ *   query; keyword search and reranking still use the query itself
+ * When the LLM fails, the query is searched for as is.
+ */
+export class QueryExpansionService {
+  private get embeddingProvider() {
+    return getEmbeddingProvider();
+  }
+
+  private get llmProvider() {
+    return getLLMProvider();
+  }
+
+  async prepare(query: string, mode: QueryMode = config.queryExpansion.defaultMode): Promise<PreparedQuery> {
+    const original: ExpandedQuery = { text: query, kind: 'original' };
+
+    if (mode === 'multi-query') {
+      const paraphrases = await this.paraphrase(query);
+      const embeddings = await this.embeddingProvider.createEmbeddings([query, ...paraphrases]);
+      return {
+        embedding: embeddings[0],
+        expansions: paraphrases.map((text, index) => ({ query: text, embedding: embeddings[index + 1] })),
+        expandedQueries: [original, ...paraphrases.map((text) => ({ text, kind: 'paraphrase' as const }))],
+      };
+    }
+
+    if (mode === 'hyde') {
+      const passage = await this.hypotheticalAnswer(query);
+      if (passage) {
+        return {
+          embedding: await this.embeddingProvider.createEmbedding(passage),
+          expansions: [],
+          expandedQueries: [original, { text: passage, kind: 'hypothetical' }],
+        };
+      }
+    }
+
+    return {
+      embedding: await this.embeddingProvider.createEmbedding(query),
+      expansions: [],
+      expandedQueries: [original],
+    };
+  }
+
+  // Up to config.queryExpansion.paraphrases distinct rephrasings of the query
+  async paraphrase(query: string): Promise<string[]> {
+    const count = config.queryExpansion.paraphrases;
+    try {
+      const response = await this.llmProvider.complete(
+        [
+          { role: 'system', content: MULTI_QUERY_PROMPT },
+          { role: 'user', content: `Write ${count} alternative search queries for: ${query}` },
+        ],
+        { temperature: 0.7 }
+      );
+
+      const seen = new Set([query.toLowerCase()]);
+      const paraphrases: string[] = [];
+      for (const line of response.split('\n')) {
+        // Models like to number or bullet their lists
+        const text = line.replace(/^\s*(?:\d+[.)]|[-*•])\s*/, '').trim().replace(/^["']|["']$/g, '');
+        if (!text || text.length > MAX_PARAPHRASE_LENGTH || seen.has(text.toLowerCase())) continue;
+        seen.add(text.toLowerCase());
+        paraphrases.push(text);
+      }
+      return paraphrases.slice(0, count);
+    } catch (error) {
+      console.error('Error generating query paraphrases, searching with the query only:', error);
+      return [];
+    }
+  }
+
+  // A passage answering the query, or null when none could be generated
+  async hypotheticalAnswer(query: string): Promise<string | null> {
+    try {
+      const passage = await this.llmProvider.complete(
+        [
+          { role: 'system', content: HYDE_PROMPT },
+          { role: 'user', content: `Write a short passage answering: ${query}` },
+        ],
+        { temperature: 0.7, maxTokens: config.queryExpansion.maxHypotheticalTokens }
+      );
+      return passage.trim() || null;
+    } catch (error) {
+      console.error('Error generating a hypothetical answer, searching with the query only:', error);
+      return null;
+    }
+  }
+}
+
+// Returns an error message if a request's queryMode isn't a known mode, otherwise null
+export function validateQueryMode(value: unknown): string | null {
+  if (value === undefined) return null;
+  if (!QUERY_MODES.includes(value as QueryMode)) {
+    return `queryMode must be one of: ${QUERY_MODES.join(', ')}`;
+  }
+  return null;
+}
+
+// Singleton instance
+let queryExpansionService: QueryExpansionService | null = null;
+
+export const getQueryExpansionService = (): QueryExpansionService => {
+  if (!queryExpansionService) {
+    queryExpansionService = new QueryExpansionService();
+  }
+  return queryExpansionService;
+};
@@ -0,0 +1,33 @@
+import { afterEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import { HttpReranker } from './rerank.service';
+
+describe('http reranker', () => {
+  afterEach(() => mock.restoreAll());
+
+  test('scores passages by the index the API returns', async () => {
+    mock.method(axios, 'post', async () => ({
+      data: { results: [{ index: 1, relevance_score: 0.9 }, { index: 0, relevance_score: 0.2 }] },
+    }));
+
+    const scores = await new HttpReranker('http://rerank.test', '', '').score('query', ['a', 'b', 'c']);
+    assert.deepEqual(scores, [0.2, 0.9, 0]);
+  });
+
+  test('ignores results for passages that were not sent', async () => {
+    mock.method(axios, 'post', async () => ({
+      data: [
+        { index: 0, score: 0.5 },
+        { index: 3, score: 0.8 },
+        { index: -1, score: 0.7 },
+        { index: 1.5, score: 0.6 },
+        { index: '1', score: 0.4 },
+        { index: 1, score: 'high' },
+      ],
+    }));
+
+    const scores = await new HttpReranker('http://rerank.test', '', '').score('query', ['a', 'b']);
+    assert.deepEqual(scores, [0.5, 0]);
+  });
+});
@@ -0,0 +1,201 @@
+import axios from 'axios';
+import { config } from '@/lib/config';
+import { RerankerName } from '@/types';
+import { getLLMProvider } from './llm-provider.service';
+import { tokenize } from './lexical-index.service';
+import type { FusedMatch } from './retrieval.service';
+
+export interface Reranker {
+  readonly name: RerankerName;
+  // Relevance of each passage to the query, in passage order; higher is better
+  score(query: string, passages: string[]): Promise<number[]>;
+}
+
+export interface RerankOptions {
+  reranker: RerankerName;
+  candidates?: number; // how many of the top matches to rescore
+}
+
+const RERANK_PROMPT = `You judge how relevant passages are to a search query.
+Rate each passage from 0 (irrelevant) to 10 (directly answers the query).
+Reply with one line per passage in the form "[number] score" and nothing else.`;
+
+/**
+ * LLM-as-judge: the configured chat model rates every passage in a single
+ * prompt. Scores are scaled to 0-1; passages the model skips score 0.
+ */
+export class LLMReranker implements Reranker {
+  readonly name = 'llm';
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    const listing = passages.map((passage, index) => `[${index + 1}] ${passage}`).join('\n\n');
+    const response = await getLLMProvider().complete(
+      [
+        { role: 'system', content: RERANK_PROMPT },
+        { role: 'user', content: `Query: ${query}\n\nPassages:\n\n${listing}` },
+      ],
+      { temperature: 0 }
+    );
+
+    const scores = new Array<number>(passages.length).fill(0);
+    for (const [, number, value] of response.matchAll(/\[(\d+)\]\s*:?\s*(\d+(?:\.\d+)?)/g)) {
+      const index = Number(number) - 1;
+      if (index >= 0 && index < passages.length) {
+        scores[index] = Math.min(Number(value), 10) / 10;
+      }
+    }
+    return scores;
+  }
+}
+
+// A hosted or self-hosted rerank API (Cohere, Jina, Voyage, Hugging Face TEI, ...)
+export class HttpReranker implements Reranker {
+  readonly name = 'http';
+
+  constructor(
+    private readonly url: string,
+    private readonly apiKey: string,
+    private readonly model: string
+  ) {
+    if (!url) {
+      throw new Error('RERANK_API_URL must be set to use the http reranker');
+    }
+  }
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    try {
+      const response = await axios.post(
+        this.url,
+        {
+          query,
+          documents: passages,
+          texts: passages,
+          ...(this.model && { model: this.model }),
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+          },
+        }
+      );
+
+      // Cohere/Jina return { results: [...] }, TEI returns the array itself
+      const results = (Array.isArray(response.data) ? response.data : response.data?.results) as
+        | Array<{ index: number; relevance_score?: number; score?: number }>
+        | undefined;
+      if (!results) {
+        throw new Error('Response did not contain rerank results');
+      }
+
+      const scores = new Array<number>(passages.length).fill(0);
+      for (const result of results) {
+        // Results for passages that weren't sent would leave holes or extra entries in the scores
+        if (!Number.isInteger(result?.index) || result.index < 0 || result.index >= passages.length) continue;
+        const score = result.relevance_score ?? result.score;
+        scores[result.index] = typeof score === 'number' && Number.isFinite(score) ? score : 0;
+      }
+      return scores;
+    } catch (error) {
+      console.error('Error reranking via rerank API:', error);
+      throw new Error(`Failed to rerank results via ${this.url}`);
+    }
+  }
+}
+
+/**
+ * Local scorer without any model: the share of query terms a passage
+ * contains (rarer terms among the candidates count more), plus a bonus when
+ * the query appears verbatim. Scores range from 0 to 1.
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = 'lexical';
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) return passages.map(() => 0);
+
+    const passageTerms = passages.map((passage) => new Set(tokenize(passage)));
+    const weights = queryTerms.map((term) => {
+      const containing = passageTerms.filter((terms) => terms.has(term)).length;
+      return Math.log(1 + (passages.length + 1) / (containing + 1));
+    });
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const phrase = queryTerms.length > 1 ? tokenize(query).join(' ') : null;
+    return passages.map((passage, index) => {
+      const coverage =
+        queryTerms.reduce((sum, term, i) => sum + (passageTerms[index].has(term) ? weights[i] : 0), 0) /
+        totalWeight;
+      const exact = phrase !== null && tokenize(passage).join(' ').includes(phrase);
+      return exact ? 0.5 + coverage / 2 : coverage * 0.75;
+    });
+  }
+}
+
+const createReranker = (name: RerankerName): Reranker => {
+  switch (name) {
+    case 'llm':
+      return new LLMReranker();
+    case 'http':
+      return new HttpReranker(config.rerank.http.url, config.rerank.http.apiKey, config.rerank.http.model);
+    case 'lexical':
+      return new LexicalReranker();
+    default:
+      throw new Error(`Unknown reranker: ${name}`);
+  }
+};
+
+/**
+ * Second-stage relevance scoring: rescores the top candidates of a query with
+ * a reranker and reorders them. The retrieval score is kept as
+ * `originalScore`; candidates beyond the rescored ones follow in their
+ * original order.
+ */
+export class RerankService {
+  private rerankers = new Map<RerankerName, Reranker>();
+
+  async rerank<T extends FusedMatch & { content?: string }>(
+    query: string,
+    matches: T[],
+    { reranker: name, candidates = config.rerank.candidates }: RerankOptions
+  ): Promise<T[]> {
+    const head = matches.slice(0, candidates);
+    if (head.length === 0) return matches;
+
+    const reranker = this.getReranker(name);
+    const passages = head.map((match) => (match.content || '').slice(0, config.rerank.maxPassageChars));
+    const scores = await reranker.score(query, passages);
+
+    const reranked = head
+      .map((match, index) => ({
+        ...match,
+        score: scores[index],
+        originalScore: match.score,
+        rerankScore: scores[index],
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    console.log(`Reranked ${head.length} results with the ${reranker.name} reranker`);
+    return [...reranked, ...matches.slice(candidates)];
+  }
+
+  private getReranker(name: RerankerName): Reranker {
+    let reranker = this.rerankers.get(name);
+    if (!reranker) {
+      reranker = createReranker(name);
+      this.rerankers.set(name, reranker);
+    }
+    return reranker;
+  }
+}
+
+// Singleton instance
+let rerankService: RerankService | null = null;
+
+export const getRerankService = (): RerankService => {
+  if (!rerankService) {
+    rerankService = new RerankService();
+  }
+  return rerankService;
+};
@@ -0,0 +1,63 @@
+import { before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { hashContent } from '../lib/hash';
+import { useTestEnvironment } from '../testing/environment';
+
+useTestEnvironment('uploads');
+
+const PART = Buffer.from('part of a large recording');
+
+describe('resumable uploads', () => {
+  let uploads: import('./resumable-upload.service').ResumableUploadService;
+  let parts: typeof import('../app/api/uploads/[id]/parts/[index]/route');
+  let partRoot: string;
+
+  before(async () => {
+    mock.method(console, 'error', () => undefined);
+    uploads = (await import('./resumable-upload.service')).getResumableUploadService();
+    parts = await import('../app/api/uploads/[id]/parts/[index]/route');
+    partRoot = path.join((await import('../lib/config')).UPLOAD_DIR, 'resumable');
+  });
+
+  const putPart = (id: string) =>
+    parts.PUT(
+      new NextRequest(`http://localhost/api/uploads/${id}/parts/0`, {
+        method: 'PUT',
+        body: PART,
+        headers: { 'x-part-checksum': hashContent(PART) },
+      }),
+      { params: Promise.resolve({ id, index: '0' }) }
+    );
+
+  test('stores a part and reports progress', async () => {
+    const upload = await uploads.create('interview.mp4', PART.length);
+
+    const response = await putPart(upload.id);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual((await uploads.get(upload.id))?.parts, { 0: hashContent(PART) });
+    await uploads.discard(upload.id);
+  });
+
+  test('returns 404 for a part of an upload discarded while it arrived', async () => {
+    const upload = await uploads.create('interview.mp4', PART.length);
+    const partDir = path.join(partRoot, upload.id);
+
+    // Discarded before the part is written: its directory is gone
+    let lookup = mock.method(uploads, 'get', async () => upload);
+    await fs.rm(partDir, { recursive: true, force: true });
+    assert.equal((await putPart(upload.id)).status, 404);
+    lookup.mock.restore();
+
+    // Discarded after the part is written: its entry is gone when the part is recorded
+    await uploads.discard(upload.id);
+    lookup = mock.method(uploads, 'get', async () => upload);
+    await fs.mkdir(partDir, { recursive: true });
+    assert.equal((await putPart(upload.id)).status, 404);
+    lookup.mock.restore();
+    await fs.rm(partDir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,210 @@
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
+import { config, DATA_DIR, UPLOAD_DIR } from '@/lib/config';
+import { JsonFileStore } from '@/lib/json-file-store';
+import { hashContent } from '@/lib/hash';
+
+export interface ResumableUpload {
+  id: string;
+  filename: string;
+  size: number;
+  partSize: number;
+  totalParts: number;
+  parts: Record<number, string>; // part index -> sha256 of the part
+  createdAt: string;
+  updatedAt: string;
+}
+
+const PART_DIR = path.join(UPLOAD_DIR, 'resumable');
+
+/**
+ * Init / append-part / complete upload protocol for large audio and video.
+ * Parts are written under UPLOAD_DIR as they arrive so an interrupted upload
+ * can continue from the first missing part.
+ *
+ * The final checksum is the sha256 of the concatenated hex sha256 digests of
+ * every part, in order, so the client never has to hash the whole file at once.
+ */
+export class ResumableUploadService {
+  private store = new JsonFileStore<Record<string, ResumableUpload>>(
+    path.join(DATA_DIR, 'uploads.json'),
+    () => ({})
+  );
+
+  async create(filename: string, size: number): Promise<ResumableUpload> {
+    await this.purgeExpired();
+
+    const partSize = config.upload.resumablePartSize;
+    const now = new Date().toISOString();
+    const upload: ResumableUpload = {
+      id: uuidv4(),
+      filename: path.basename(filename),
+      size,
+      partSize,
+      totalParts: Math.max(1, Math.ceil(size / partSize)),
+      parts: {},
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await fs.mkdir(this.partDir(upload.id), { recursive: true });
+    await this.store.update((data) => {
+      data[upload.id] = upload;
+    });
+
+    return upload;
+  }
+
+  // Ids come from the URL and name a directory, so anything but a uuid is an unknown upload
+  async get(id: string): Promise<ResumableUpload | null> {
+    if (!isUuid(id)) return null;
+    const data = await this.store.read();
+    return Object.hasOwn(data, id) ? data[id] : null;
+  }
+
+  async writePart(
+    id: string,
+    index: number,
+    body: Buffer,
+    checksum: string
+  ): Promise<ResumableUpload> {
+    const upload = await this.get(id);
+    if (!upload) {
+      throw new Error(`Upload '${id}' not found`);
+    }
+
+    if (!Number.isInteger(index) || index < 0 || index >= upload.totalParts) {
+      throw new Error(`Part ${index} is out of range (0-${upload.totalParts - 1})`);
+    }
+
+    const expectedSize = index === upload.totalParts - 1
+      ? upload.size - index * upload.partSize
+      : upload.partSize;
+    if (body.length !== expectedSize) {
+      throw new Error(`Part ${index} has ${body.length} bytes, expected ${expectedSize}`);
+    }
+
+    const actualChecksum = hashContent(body);
+    if (actualChecksum !== checksum.toLowerCase()) {
+      throw new Error(`Checksum mismatch for part ${index}`);
+    }
+
+    // The upload may be discarded or expire meanwhile, removing its part directory and then its entry
+    try {
+      await fs.writeFile(this.partPath(id, index), body);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Upload '${id}' not found`);
+      }
+      throw error;
+    }
+
+    return this.store.update((data) => {
+      if (!Object.hasOwn(data, id)) {
+        throw new Error(`Upload '${id}' not found`);
+      }
+      data[id].parts[index] = actualChecksum;
+      data[id].updatedAt = new Date().toISOString();
+      return data[id];
+    });
+  }
+
+  // Assemble the parts into one file, verify it against the client's checksum and return its path
+  async complete(id: string, checksum: string): Promise<{ filePath: string; filename: string }> {
+    const upload = await this.get(id);
+    if (!upload) {
+      throw new Error(`Upload '${id}' not found`);
+    }
+
+    const missing = this.missingParts(upload);
+    if (missing.length > 0) {
+      throw new Error(`Upload is missing ${missing.length} part(s), starting at part ${missing[0]}`);
+    }
+
+    const filePath = path.join(UPLOAD_DIR, `${Date.now()}-${upload.filename}`);
+    const output = createWriteStream(filePath);
+    const partDigests: string[] = [];
+
+    try {
+      // Re-hash every part while copying so the assembled bytes are what gets verified
+      for (let index = 0; index < upload.totalParts; index++) {
+        const hash = createHash('sha256');
+        for await (const chunk of createReadStream(this.partPath(id, index))) {
+          hash.update(chunk);
+          if (!output.write(chunk)) {
+            await new Promise<void>((resolve) => output.once('drain', () => resolve()));
+          }
+        }
+        partDigests.push(hash.digest('hex'));
+      }
+      await new Promise<void>((resolve, reject) => {
+        output.end((error?: Error | null) => (error ? reject(error) : resolve()));
+      });
+
+      const actualChecksum = hashContent(partDigests.join(''));
+      if (actualChecksum !== checksum.toLowerCase()) {
+        throw new Error('Checksum mismatch for assembled file');
+      }
+    } catch (error) {
+      output.destroy();
+      await fs.rm(filePath, { force: true });
+      throw error;
+    }
+
+    await this.discard(id);
+    return { filePath, filename: upload.filename };
+  }
+
+  missingParts(upload: ResumableUpload): number[] {
+    const missing: number[] = [];
+    for (let index = 0; index < upload.totalParts; index++) {
+      if (!upload.parts[index]) missing.push(index);
+    }
+    return missing;
+  }
+
+  async discard(id: string): Promise<void> {
+    if (!(await this.get(id))) {
+      throw new Error(`Upload '${id}' not found`);
+    }
+
+    await fs.rm(this.partDir(id), { recursive: true, force: true });
+    await this.store.update((data) => {
+      delete data[id];
+    });
+  }
+
+  // Drop sessions that haven't received a part in a while
+  private async purgeExpired(): Promise<void> {
+    const data = await this.store.read();
+    const cutoff = Date.now() - config.upload.resumableExpiryHours * 60 * 60 * 1000;
+
+    for (const upload of Object.values(data)) {
+      if (new Date(upload.updatedAt).getTime() < cutoff) {
+        console.log(`Discarding expired upload ${upload.id} (${upload.filename})`);
+        await this.discard(upload.id);
+      }
+    }
+  }
+
+  private partDir(id: string): string {
+    return path.join(PART_DIR, id);
+  }
+
+  private partPath(id: string, index: number): string {
+    return path.join(this.partDir(id), `${index}.part`);
+  }
+}
+
+// Singleton instance
+let resumableUploadService: ResumableUploadService | null = null;
+
+export const getResumableUploadService = (): ResumableUploadService => {
+  if (!resumableUploadService) {
+    resumableUploadService = new ResumableUploadService();
+  }
+  return resumableUploadService;
+};
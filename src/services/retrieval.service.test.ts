@@ -0,0 +1,102 @@
+import { after, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { useTestEnvironment } from '../testing/environment';
+
+useTestEnvironment('retrieval', {
+  // One chunk per section of the guide below
+  CHUNKING_OVERRIDES: JSON.stringify({ md: { strategy: 'markdown', chunkSize: 300, chunkOverlap: 0 } }),
+});
+
+const GUIDE = Array.from(
+  { length: 8 },
+  (_, index) => `# Orchid care ${index + 1}
+
+Orchid flowers need bright, indirect light. Water orchids sparingly, about once a week, and keep the
+roots out of standing water. Tip ${index + 1}: repot orchids every two years in fresh bark.`
+).join('\n\n');
+
+describe('ranked retrieval', () => {
+  let retrieval: typeof import('./retrieval.service');
+  let embed: (text: string) => Promise<number[]>;
+
+  before(async () => {
+    mock.method(console, 'log', () => undefined);
+
+    const { getDocumentProcessingService } = await import('./document-processing.service');
+    const { getEmbeddingProvider } = await import('./embedding-provider.service');
+    retrieval = await import('./retrieval.service');
+    embed = (text) => getEmbeddingProvider().createEmbedding(text);
+
+    const processing = getDocumentProcessingService();
+    await processing.processFile(fs.readFileSync(path.join(process.cwd(), 'test-shopify.csv')), 'test-shopify.csv');
+    await processing.processFile(Buffer.from(GUIDE), 'orchid-care.md');
+  });
+
+  after(() => mock.restoreAll());
+
+  test('reranks every result and keeps the policy quotas', async () => {
+    const query = 'orchid flowers';
+    const matches = await retrieval.getRetrievalService().query(await embed(query), 5, {
+      query,
+      rankingPolicy: 'products-first',
+      rerank: { reranker: 'lexical', candidates: 8 },
+    });
+
+    assert.equal(matches.length, 5);
+    for (const match of matches) {
+      assert.equal(typeof match.rerankScore, 'number', match.id);
+      assert.equal(match.score, match.rerankScore, match.id);
+    }
+    const scores = matches.map((match) => match.score);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+
+    // products-first gives 60% of the results to products (3 of 5) when there are enough of them
+    const products = matches.filter((match) => match.metadata?.source === 'shopify').length;
+    assert.equal(products, 3);
+  });
+
+  test('reranks no more than the candidate cap and keeps the rest in retrieval order', async () => {
+    const { getDocumentProcessingService } = await import('./document-processing.service');
+    const notes = Array.from(
+      { length: 110 },
+      (_, index) => `# Greenhouse note ${index + 1}
+
+Orchid flowers in bay ${index + 1} were misted in the morning and turned towards the light. The bark was
+checked for moisture, the aerial roots were left alone and the spent flower spikes were cut back.`
+    ).join('\n\n');
+    await getDocumentProcessingService().processFile(Buffer.from(notes), 'greenhouse-notes.md');
+
+    const query = 'orchid flowers';
+    const embedding = await embed(query);
+    const retrieved = await retrieval.getRetrievalService().query(embedding, 105, { query });
+    const reranked = await retrieval.getRetrievalService().query(embedding, 105, {
+      query,
+      rerank: { reranker: 'lexical', candidates: 20 },
+    });
+
+    // RERANK_MAX_CANDIDATES is 100: the first 100 are rescored, the last 5 keep their retrieval order
+    assert.equal(reranked.length, 105);
+    assert.equal(reranked.filter((match) => match.rerankScore !== undefined).length, 100);
+    assert.deepEqual(
+      reranked.slice(0, 100).map((match) => match.id).sort(),
+      retrieved.slice(0, 100).map((match) => match.id).sort()
+    );
+    assert.deepEqual(
+      reranked.slice(100).map((match) => match.id),
+      retrieved.slice(100).map((match) => match.id)
+    );
+  });
+
+  test('the query-products route rejects bodies that are not objects and topK out of range', async () => {
+    const { NextRequest } = await import('next/server');
+    const { POST } = await import('../app/api/query-products/route');
+    const bodies = ['null', '[]', 'not json', ...[0, 1.5, '10', 51].map((topK) => JSON.stringify({ query: 'orchid', topK }))];
+
+    for (const body of bodies) {
+      const response = await POST(new NextRequest('http://localhost/api/query-products', { method: 'POST', body }));
+      assert.equal(response.status, 400, body);
+    }
+  });
+});
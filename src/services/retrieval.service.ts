@@ -0,0 +1,336 @@
+import { config } from '@/lib/config';
+import { applyRankingPolicy, getRankingPolicy } from '@/lib/ranking-policy';
+import { combineFilters } from '@/lib/search-filter';
+import { CollapsedHit, CollapseMode, collapseMatches, diversifyMatches } from '@/lib/diversification';
+import { getVectorStore, VectorFilter, VectorMatch } from './vector-store.service';
+import { getChunkStore } from './chunk-store.service';
+import { getLexicalIndex } from './lexical-index.service';
+import { getRerankService, RerankOptions } from './rerank.service';
+
+export type Retriever = 'vector' | 'lexical';
+
+// A match with the retrievers that found it. With both retrievers, `score` is
+// the fused score (1 = ranked first by both) and the original scores are kept.
+// After reranking, `score` is the reranker's and the retrieval score moves to `originalScore`
+export interface FusedMatch extends VectorMatch {
+  retrievers: Retriever[];
+  vectorScore?: number;
+  lexicalScore?: number;
+  originalScore?: number;
+  rerankScore?: number;
+  // Lower-ranked chunks of the same document or product, when results are collapsed
+  collapsed?: CollapsedHit[];
+}
+
+// A match hydrated with the full text of its chunk
+export interface RetrievedMatch extends FusedMatch {
+  content: string;
+}
+
+export interface RetrievalOptions {
+  // Query text for the keyword index and reranker; without it only vector search runs
+  query?: string;
+  // Share of the fused ranking given to keyword matches (0-1), defaults to config.retrieval.lexicalWeight
+  lexicalWeight?: number;
+  // Rescore the top candidates with a reranker before keeping the top K
+  rerank?: RerankOptions;
+  // Name of the ranking policy (quotas, boosts, minimum score) applied to the final ranking
+  rankingPolicy?: string;
+  // Maximal-marginal-relevance trade-off: 0 keeps the ranking, 1 favours dissimilar results
+  diversity?: number;
+  // Keep one hit per document or product handle
+  collapse?: CollapseMode;
+  // Other phrasings of the query (multi-query expansion), searched alongside it
+  expansions?: Array<{ query: string; embedding: number[] }>;
+}
+
+export class RetrievalService {
+  private chunkStore = getChunkStore();
+  private lexicalIndex = getLexicalIndex();
+  private rerankService = getRerankService();
+
+  private get vectorStore() {
+    return getVectorStore();
+  }
+
+  async query(
+    embedding: number[],
+    topK: number = 5,
+    options: RetrievalOptions = {}
+  ): Promise<RetrievedMatch[]> {
+    return this.retrieveRanked(embedding, topK, undefined, true, options) as Promise<RetrievedMatch[]>;
+  }
+
+  // Filtered query; chunk text is only loaded when it will be returned
+  async search(
+    embedding: number[],
+    topK: number,
+    filter?: VectorFilter,
+    includeContent: boolean = true,
+    options: RetrievalOptions = {}
+  ): Promise<Array<FusedMatch & { content?: string }>> {
+    return this.retrieveRanked(embedding, topK, filter, includeContent, options);
+  }
+
+  // Product-aware query: ranked by the configured product policy unless the request names one
+  async queryWithProductPriority(
+    embedding: number[],
+    topK: number = 10,
+    prioritizeProducts: boolean = true,
+    options: RetrievalOptions = {}
+  ): Promise<RetrievedMatch[]> {
+    try {
+      const rankingPolicy =
+        options.rankingPolicy ?? (prioritizeProducts ? config.ranking.defaultPolicy : 'similarity');
+      return await this.query(embedding, topK, { ...options, rankingPolicy });
+    } catch (error) {
+      console.error('Error querying vector store with product priority:', error);
+      throw error;
+    }
+  }
+
+  // Query specifically for products
+  async queryProducts(
+    embedding: number[],
+    topK: number = 5,
+    filters?: {
+      vendor?: string;
+      type?: string;
+      inStock?: boolean;
+      minPrice?: number;
+      maxPrice?: number;
+    }
+  ): Promise<RetrievedMatch[]> {
+    try {
+      // Build filter object
+      const filter: VectorFilter = {
+        source: { $eq: 'shopify' }
+      };
+
+      if (filters) {
+        if (filters.vendor) {
+          filter.vendor = { $eq: filters.vendor };
+        }
+        if (filters.type) {
+          filter.type = { $eq: filters.type };
+        }
+        if (filters.inStock !== undefined) {
+          filter.inStock = { $eq: filters.inStock };
+        }
+        if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+          filter.price = {};
+          if (filters.minPrice !== undefined) {
+            filter.price.$gte = filters.minPrice;
+          }
+          if (filters.maxPrice !== undefined) {
+            filter.price.$lte = filters.maxPrice;
+          }
+        }
+      }
+
+      return await this.withContent(await this.retrieve(embedding, topK, filter));
+    } catch (error) {
+      console.error('Error querying products from vector store:', error);
+      throw error;
+    }
+  }
+
+  // Fetch enough candidates for the reranker, diversification and collapsing to choose from
+  private candidateCount(topK: number, { rerank, diversity, collapse }: RetrievalOptions): number {
+    let count = topK;
+    if (rerank) {
+      count = Math.max(count, Math.min(rerank.candidates ?? config.rerank.candidates, config.rerank.maxCandidates));
+    }
+    if ((diversity ?? 0) > 0 || collapse) {
+      count = Math.max(count, topK * config.retrieval.diversityPool);
+    }
+    return count;
+  }
+
+  // How many results are rescored: the requested candidates, but never fewer than are returned
+  // and never more than the reranker is allowed to score in one request
+  private rerankCount(topK: number, rerank: RerankOptions): number {
+    return Math.min(Math.max(topK, rerank.candidates ?? config.rerank.candidates), config.rerank.maxCandidates);
+  }
+
+  /**
+   * Retrieve, apply the ranking policy and rerank. Every quota of the policy
+   * gets its own candidates, so a small group (e.g. products) isn't crowded
+   * out before the policy has a chance to reserve its share. Expanded queries
+   * are retrieved the same way and merged.
+   */
+  private async retrieveRanked(
+    embedding: number[],
+    topK: number,
+    filter: VectorFilter | undefined,
+    includeContent: boolean,
+    options: RetrievalOptions
+  ): Promise<Array<FusedMatch & { content?: string }>> {
+    const { query, rerank, rankingPolicy, diversity = 0, collapse, expansions = [] } = options;
+    const policy = rankingPolicy ? getRankingPolicy(rankingPolicy) : null;
+    const candidates = this.candidateCount(topK, options);
+
+    const filters = policy?.quotas.length
+      ? policy.quotas.map((quota) => combineFilters([filter, quota.filter]))
+      : [filter];
+    const probes = [{ query, embedding }, ...expansions];
+    const lists = await Promise.all(
+      probes.map(async (probe) => {
+        const groups = await Promise.all(
+          filters.map((groupFilter) =>
+            this.retrieve(probe.embedding, candidates, groupFilter, { ...options, query: probe.query })
+          )
+        );
+        // Quota conditions may overlap, so the same chunk can come back twice
+        const unique = new Map<string, FusedMatch>();
+        groups.flat().forEach((match) => unique.has(match.id) || unique.set(match.id, match));
+        return [...unique.values()];
+      })
+    );
+
+    let matches: Array<FusedMatch & { content?: string }> = (
+      probes.length > 1 ? this.mergeProbes(lists) : lists[0]
+    ).sort((a, b) => b.score - a.score);
+
+    // Collapsing and diversification pick from the whole ranked pool, not just the top K
+    const spread = diversity > 0 || !!collapse;
+    const rerankQuery = rerank && query?.trim() ? query : undefined;
+    // The pool is rescored as a whole, so reranker scores are never compared with retrieval scores,
+    // unless more results are returned than can be reranked: those follow in retrieval order
+    const rerankCount = rerank && rerankQuery ? this.rerankCount(topK, rerank) : 0;
+    const poolSize = rerankCount > 0 ? Math.max(topK, rerankCount) : spread ? matches.length : topK;
+
+    // minScore, boosts and quotas are defined on retrieval scores, so they apply before reranking
+    matches = policy ? applyRankingPolicy(matches, policy, poolSize) : matches.slice(0, poolSize);
+
+    // The reranker and diversification read the chunk text even when the caller doesn't want it back
+    if (includeContent || rerankQuery || diversity > 0) {
+      matches = await this.withContent(matches);
+    }
+    if (rerank && rerankQuery) {
+      matches = await this.rerankService.rerank(rerankQuery, matches, { ...rerank, candidates: rerankCount });
+      // The pool already holds each quota's share; keep those shares in the reranked top K
+      if (policy?.quotas.length && !spread && matches.length > topK) {
+        matches = applyRankingPolicy(matches, { ...policy, boosts: [], minScore: undefined }, topK);
+      }
+    }
+
+    if (collapse) {
+      matches = collapseMatches(matches, collapse);
+    }
+    const ranked = diversifyMatches(matches, topK, diversity);
+
+    return ranked.map(({ values, content, ...match }) =>
+      includeContent ? { ...match, content } : match
+    );
+  }
+
+  /**
+   * Vector search, fused with BM25 keyword search when query text is given.
+   * Both rankings are combined with weighted reciprocal-rank fusion, which
+   * only looks at positions, so cosine and BM25 scores never need to be on
+   * the same scale.
+   */
+  private async retrieve(
+    embedding: number[],
+    topK: number,
+    filter?: VectorFilter,
+    { query, lexicalWeight = config.retrieval.lexicalWeight, diversity = 0 }: RetrievalOptions = {}
+  ): Promise<FusedMatch[]> {
+    // Diversification compares results by their embeddings
+    const includeValues = diversity > 0;
+
+    if (!query?.trim() || lexicalWeight <= 0) {
+      const matches = await this.vectorStore.query({ vector: embedding, topK, filter, includeValues });
+      return matches.map((match) => ({ ...match, retrievers: ['vector'], vectorScore: match.score }));
+    }
+
+    const depth = Math.max(topK, config.retrieval.candidates);
+    const [vectorMatches, lexicalMatches] = await Promise.all([
+      lexicalWeight < 1 ? this.vectorStore.query({ vector: embedding, topK: depth, filter, includeValues }) : [],
+      this.lexicalIndex.search(query, depth, filter),
+    ]);
+
+    const { rrfK } = config.retrieval;
+    const fused = new Map<string, FusedMatch>();
+    const contribute = (
+      matches: VectorMatch[],
+      retriever: Retriever,
+      weight: number
+    ) => {
+      matches.forEach((match, rank) => {
+        const entry = fused.get(match.id) || {
+          id: match.id,
+          score: 0,
+          metadata: match.metadata,
+          retrievers: [],
+          ...(match.values && { values: match.values }),
+        };
+        // Normalized so a first place in every retriever scores 1
+        entry.score += (weight * (rrfK + 1)) / (rrfK + rank + 1);
+        entry.retrievers.push(retriever);
+        entry[retriever === 'vector' ? 'vectorScore' : 'lexicalScore'] = match.score;
+        fused.set(match.id, entry);
+      });
+    };
+
+    contribute(vectorMatches, 'vector', 1 - Math.min(lexicalWeight, 1));
+    contribute(lexicalMatches, 'lexical', Math.min(lexicalWeight, 1));
+
+    return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  /**
+   * Merge the results of several phrasings of a query. A chunk scores the
+   * average of its scores over all phrasings (0 where one didn't find it), so
+   * chunks most phrasings agree on come first; the retriever scores are the
+   * best seen.
+   */
+  private mergeProbes(lists: FusedMatch[][]): FusedMatch[] {
+    const merged = new Map<string, FusedMatch>();
+    const best = (a?: number, b?: number) => (a === undefined ? b : b === undefined ? a : Math.max(a, b));
+
+    for (const match of lists.flat()) {
+      const entry = merged.get(match.id);
+      if (!entry) {
+        merged.set(match.id, { ...match, score: match.score / lists.length, retrievers: [...match.retrievers] });
+        continue;
+      }
+      entry.score += match.score / lists.length;
+      entry.retrievers = [...new Set([...entry.retrievers, ...match.retrievers])];
+      entry.vectorScore = best(entry.vectorScore, match.vectorScore);
+      entry.lexicalScore = best(entry.lexicalScore, match.lexicalScore);
+    }
+
+    return [...merged.values()];
+  }
+
+  private async withContent(matches: FusedMatch[]): Promise<RetrievedMatch[]> {
+    const chunks = await this.chunkStore.get(matches.map((match) => match.id));
+
+    return matches.map((match) => ({
+      ...match,
+      // Vectors written before the chunk store only carry a truncated copy in metadata
+      content: chunks.get(match.id)?.content ?? (match.metadata?.content as string) ?? '',
+    }));
+  }
+}
+
+// Returns an error message if a request's topK isn't a number of results the query routes return, otherwise null
+export function validateTopK(value: unknown): string | null {
+  if (value === undefined) return null;
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > config.retrieval.maxTopK) {
+    return `topK must be an integer between 1 and ${config.retrieval.maxTopK}`;
+  }
+  return null;
+}
+
+// Singleton instance
+let retrievalService: RetrievalService | null = null;
+
+export const getRetrievalService = (): RetrievalService => {
+  if (!retrievalService) {
+    retrievalService = new RetrievalService();
+  }
+  return retrievalService;
+};
@@ -0,0 +1,97 @@
+import { config } from '@/lib/config';
+import { describeSource } from '@/lib/citation';
+import { QueryMode, SearchHit, SearchResults } from '@/types';
+import type { CollapseMode } from '@/lib/diversification';
+import { getQueryExpansionService } from './query-expansion.service';
+import { getRetrievalService } from './retrieval.service';
+import { RerankOptions } from './rerank.service';
+import { VectorFilter } from './vector-store.service';
+
+export interface SearchOptions {
+  filter?: VectorFilter;
+  page?: number; // 1-based
+  pageSize?: number;
+  includeContent?: boolean;
+  lexicalWeight?: number;
+  rerank?: RerankOptions;
+  rankingPolicy?: string;
+  diversity?: number;
+  collapse?: CollapseMode;
+  queryMode?: QueryMode;
+}
+
+/**
+ * Similarity search over every indexed chunk, narrowed by a metadata filter.
+ * Vector stores have no offset, so a page is cut from the top
+ * `page * pageSize` matches (plus one, to know whether another page exists).
+ */
+export class SearchService {
+  private retrievalService = getRetrievalService();
+  private queryExpansionService = getQueryExpansionService();
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResults> {
+    const {
+      filter,
+      page = 1,
+      pageSize = config.search.defaultPageSize,
+      includeContent = false,
+      lexicalWeight,
+      rerank,
+      rankingPolicy,
+      diversity,
+      collapse,
+      queryMode = config.queryExpansion.defaultMode,
+    } = options;
+    const offset = (page - 1) * pageSize;
+
+    const { embedding, expansions, expandedQueries } = await this.queryExpansionService.prepare(query, queryMode);
+    const matches = await this.retrievalService.search(
+      embedding,
+      offset + pageSize + 1,
+      filter,
+      includeContent,
+      { query, lexicalWeight, rerank, rankingPolicy, diversity, collapse, expansions }
+    );
+
+    const results: SearchHit[] = matches.slice(offset, offset + pageSize).map((match) => {
+      const metadata = match.metadata || {};
+      return {
+        id: match.id,
+        score: match.score,
+        retrievers: match.retrievers,
+        ...(match.vectorScore !== undefined && { vectorScore: match.vectorScore }),
+        ...(match.lexicalScore !== undefined && { lexicalScore: match.lexicalScore }),
+        ...(match.rerankScore !== undefined && {
+          originalScore: match.originalScore,
+          rerankScore: match.rerankScore,
+        }),
+        ...(match.collapsed && { collapsed: match.collapsed }),
+        documentId: (metadata.documentId as string) || match.id,
+        ...(metadata.filename && { filename: metadata.filename as string }),
+        ...(metadata.source && { source: metadata.source as string }),
+        ...(describeSource(metadata) && { citation: describeSource(metadata) }),
+        ...(includeContent && { content: match.content ?? '' }),
+        metadata,
+      };
+    });
+
+    console.log(`Search for "${query}" returned ${results.length} results (page ${page})`);
+    return {
+      results,
+      page,
+      pageSize,
+      hasMore: matches.length > offset + pageSize,
+      ...(queryMode !== 'standard' && { expandedQueries }),
+    };
+  }
+}
+
+// Singleton instance
+let searchService: SearchService | null = null;
+
+export const getSearchService = (): SearchService => {
+  if (!searchService) {
+    searchService = new SearchService();
+  }
+  return searchService;
+};
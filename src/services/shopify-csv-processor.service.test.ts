@@ -0,0 +1,61 @@
+import { before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../lib/config';
+import { ShopifyCsvProcessorService } from './shopify-csv-processor.service';
+import { buildVectorRecord } from './vector-store.service';
+
+const CSV = `Handle,Title,Vendor,Status,Option1 Name,Option1 Value,Variant SKU,Variant Price,Variant Inventory Qty,Image Src
+sample-kit,Sample Kit,Acme,active,Size,Mini,KIT-MINI,0.00,5,https://cdn.example.com/kit.jpg
+sample-kit,,,,,Full,KIT-FULL,24.00,0,https://cdn.example.com/kit-full.jpg
+gift-card,Gift Card,,active,Title,Default Title,GIFT,10.00,1,`;
+
+const METAFIELDS_CSV = `Handle,Title,Status,Variant Price,Metafield: custom.summary_blurb [multi_line_text_field],Metafield: custom.vegan [boolean],Metafield: custom.scents [list.single_line_text_field],Metafield: judgeme.badge [string],Metafield: custom.manual [file_reference],Smart Collections
+rose-mist,Rose Mist,active,18.00,A calming facial mist.,true,"[""Rose"",""Neroli""]",<div>4.9 stars</div>,gid://shopify/GenericFile/1,Bestsellers`;
+
+describe('shopify csv processor', () => {
+  before(() => mock.method(console, 'log', () => undefined));
+
+  test('groups rows by handle into one product with its variants', async () => {
+    const products = await new ShopifyCsvProcessorService().processShopifyCsv(CSV, 'shopify_products.csv');
+
+    assert.deepEqual(products.map((product) => product.metadata.productHandle), ['sample-kit', 'gift-card']);
+    const kit = products[0].metadata;
+    assert.deepEqual(kit.variants?.map((variant) => variant.sku), ['KIT-MINI', 'KIT-FULL']);
+    assert.deepEqual(kit.images, ['https://cdn.example.com/kit.jpg', 'https://cdn.example.com/kit-full.jpg']);
+    assert.equal(kit.priceMin, 0);
+    assert.equal(kit.priceMax, 24);
+  });
+
+  test('keeps a price of 0 in the vector metadata', async () => {
+    const [kit] = await new ShopifyCsvProcessorService().processShopifyCsv(CSV, 'shopify_products.csv');
+    const record = buildVectorRecord(kit, [0]);
+
+    assert.equal(record.metadata.price, 0);
+    assert.equal(record.metadata.priceMin, 0);
+  });
+
+  test("names the store's default vendor as the brand when the export has none", async () => {
+    const [, giftCard] = await new ShopifyCsvProcessorService().processShopifyCsv(CSV, 'shopify_products.csv');
+
+    assert.ok(giftCard.metadata.vendor);
+    assert.match(giftCard.content, new RegExp(`^Brand: ${giftCard.metadata.vendor}$`, 'm'));
+  });
+
+  test('imports metafields and columns as their mappings say', async (t) => {
+    const mappings = config.shopify.fields;
+    config.shopify.fields = [{ column: 'Metafield: custom.vegan [boolean]', target: 'both' }, ...mappings];
+    t.after(() => (config.shopify.fields = mappings));
+
+    const [mist] = await new ShopifyCsvProcessorService().processShopifyCsv(METAFIELDS_CSV, 'shopify_products.csv');
+
+    // The store's label, the metafield key as a label, the collection column; review markup and files are left out
+    assert.match(mist.content, /^Summary: A calming facial mist\.$/m);
+    assert.match(mist.content, /^Vegan: Yes$/m);
+    assert.match(mist.content, /^Scents: Rose, Neroli$/m);
+    assert.match(mist.content, /^Smart Collections: Bestsellers$/m);
+    assert.doesNotMatch(mist.content, /stars|gid:/);
+
+    assert.deepEqual(mist.metadata.attributes, { vegan: true });
+    assert.equal(buildVectorRecord(mist, [0]).metadata.vegan, true);
+  });
+});
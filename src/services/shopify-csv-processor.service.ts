@@ -1,11 +1,22 @@
 import { parse } from 'csv-parse/sync';
 import { v4 as uuidv4 } from 'uuid';
-import { ProcessedDocument, DocumentMetadata } from '@/types';
+import { config } from '@/lib/config';
+import {
+  formatFieldValue,
+  parseFieldValue,
+  resolveField,
+  ResolvedShopifyField,
+  validateFieldMapping,
+} from '@/lib/shopify-fields';
+import { ProcessedDocument, DocumentMetadata, ProductVariant, ShopifyFieldValue, ShopifyStoreDefaults } from '@/types';
 
+// One row of a Shopify product export. A product spans several rows with the same Handle: the
+// first has the product fields, and each further variant or image gets a row of its own
 export interface ShopifyProduct {
   Handle: string;
   Title: string;
   'Body HTML'?: string;
+  Vendor?: string;
   Type?: string;
   Tags?: string;
   Status?: string;
@@ -15,19 +26,48 @@ export interface ShopifyProduct {
   'Smart Collections'?: string;
   'Image Src'?: string;
   'Image Alt Text'?: string;
+  'Image Position'?: string;
   'Option1 Name'?: string;
+  'Option1 Value'?: string;
+  'Option2 Name'?: string;
+  'Option2 Value'?: string;
+  'Option3 Name'?: string;
+  'Option3 Value'?: string;
+  'Variant SKU'?: string;
   'Variant Image'?: string;
   'Variant Price'?: string;
-  'Metafield: title_tag [string]'?: string;
-  'Metafield: description_tag [string]'?: string;
-  'Metafield: custom.how_to_use [multi_line_text_field]'?: string;
-  'Metafield: custom.ingredients [multi_line_text_field]'?: string;
-  'Metafield: custom.essences_inside_pictures [list.file_reference]'?: string;
-  'Metafield: custom.essences_inside_names [list.single_line_text_field]'?: string;
-  'Metafield: custom.essences_inside_descriptors [list.single_line_text_field]'?: string;
-  'Metafield: custom.summary_blurb [multi_line_text_field]'?: string;
-  'Metafield: custom.smells_like [multi_line_text_field]'?: string;
-  'Metafield: judgeme.widget [string]'?: string;
+  'Variant Compare At Price'?: string;
+  'Variant Inventory Tracker'?: string;
+  'Variant Inventory Qty'?: string;
+  'Variant Inventory Policy'?: string;
+  'Variant Barcode'?: string;
+  // Metafield columns ("Metafield: custom.ingredients [multi_line_text_field]"), newer exports'
+  // per-location "Inventory Available: <location>" columns and any others
+  [column: string]: string | undefined;
+}
+
+const OPTION_COLUMNS = [
+  ['Option1 Name', 'Option1 Value'],
+  ['Option2 Name', 'Option2 Value'],
+  ['Option3 Name', 'Option3 Value'],
+] as const;
+
+// Shopify's placeholder option for products sold in a single variant
+const DEFAULT_VARIANT_TITLE = 'Default Title';
+
+// Columns the importer reads itself; field mappings apply to all others
+const PRODUCT_COLUMNS = new Set([
+  'Handle', 'Title', 'Body HTML', 'Vendor', 'Type', 'Tags', 'Status', 'Published', 'URL',
+  'Image Src', 'Image Position', 'Image Alt Text', ...OPTION_COLUMNS.flat(),
+]);
+
+const isProductColumn = (column: string) =>
+  PRODUCT_COLUMNS.has(column) || column.startsWith('Variant ') || column.startsWith('Inventory Available:');
+
+// A mapped column's value on one product
+interface MappedValue {
+  field: ResolvedShopifyField;
+  value: ShopifyFieldValue;
 }
 
 export class ShopifyCsvProcessorService {
@@ -55,19 +95,15 @@ export class ShopifyCsvProcessorService {
       }
 
       const processedDocuments: ProcessedDocument[] = [];
+      const store = this.storeFor(filename);
+      const fields = this.resolveFields(Object.keys(records[0] || {}), store);
+      const products = this.groupByHandle(records);
+      console.log(`Grouped ${records.length} rows into ${products.length} products`);
 
-      // Build a map of first non-empty price per product handle
-      const handleToPrice: Record<string, number | undefined> = {};
-      for (const product of records) {
-        if (!handleToPrice[product.Handle] && product['Variant Price']) {
-          const parsed = parseFloat(product['Variant Price'].replace(/[^0-9.]/g, ''));
-          if (!isNaN(parsed)) {
-            handleToPrice[product.Handle] = parsed;
-          }
-        }
-      }
+      for (const rows of products) {
+        // The product fields are on the row with the title; the others only add variants and images
+        const product = rows.find((row) => row.Title?.trim()) || rows[0];
 
-      for (const product of records) {
         // Skip draft or archived products
         if (product.Status && product.Status.toLowerCase() !== 'active') {
           console.log(`Skipping inactive product: ${product.Title}`);
@@ -80,11 +116,29 @@ export class ShopifyCsvProcessorService {
           continue;
         }
 
-        // Use the first non-empty price for this handle
-        const price = handleToPrice[product.Handle];
+        const variants = this.toVariants(rows, product, store);
+        const vendor = product.Vendor || store.vendor;
+        const mapped = fields
+          .map((field) => ({ field, value: parseFieldValue(product[field.column], field.parser) }))
+          .filter((entry): entry is MappedValue => entry.value !== undefined);
+        const attributes = Object.fromEntries(
+          mapped
+            .filter(({ field }) => field.target === 'metadata' || field.target === 'both')
+            .map(({ field, value }) => [field.field, value])
+        );
+        const prices = variants.map((variant) => variant.price).filter((price): price is number => price !== undefined);
+        const priceMin = prices.length > 0 ? Math.min(...prices) : undefined;
+        const priceMax = prices.length > 0 ? Math.max(...prices) : undefined;
 
         // Create a natural language description of the product
-        const content = this.formatProductAsNaturalLanguage(product);
+        const content = this.formatProductAsNaturalLanguage(
+          product,
+          vendor,
+          variants,
+          mapped.filter(({ field }) => field.target === 'text' || field.target === 'both'),
+          priceMin,
+          priceMax
+        );
         
         // Create document with special metadata for Shopify products
         const document: ProcessedDocument = {
@@ -99,19 +153,24 @@ export class ShopifyCsvProcessorService {
             productType: 'shopify_product',
             productHandle: product.Handle,
             productTitle: product.Title,
-            vendor: 'Lotus Wei', // Default vendor since it's not in CSV
+            ...(vendor && { vendor }),
             type: product.Type,
             tags: product.Tags?.split(',').map(t => t.trim()).filter(t => t.length > 0),
-            price: price,
-            sku: product.Handle, // Use handle as SKU since no SKU field
-            inStock: true, // Assume in stock since no inventory field
+            price: priceMin,
+            priceMin,
+            priceMax,
+            sku: variants.find((variant) => variant.sku)?.sku ?? (store.skuFromHandle ? product.Handle : undefined),
+            inStock: variants.length > 0 ? variants.some((variant) => variant.inStock) : store.inStockWhenUnknown,
+            variants,
+            images: this.collectImages(rows),
+            ...(Object.keys(attributes).length > 0 && { attributes }),
             url: product.URL,
             // Add a priority score for Shopify products
             priorityScore: 100, // High priority for product data
           },
         };
 
-        console.log(`Processed product: ${product.Title}, Price: ${product['Variant Price']}, Assigned: ${price}`);
+        console.log(`Processed product: ${product.Title}, ${variants.length} variants, Price: ${this.formatPriceRange(priceMin, priceMax)}`);
         processedDocuments.push(document);
       }
 
@@ -123,12 +182,173 @@ export class ShopifyCsvProcessorService {
     }
   }
 
-  private formatProductAsNaturalLanguage(product: ShopifyProduct): string {
+  // Rows in export order, grouped by Handle; a row without a handle is a product of its own
+  private groupByHandle(records: ShopifyProduct[]): ShopifyProduct[][] {
+    const products = new Map<string, ShopifyProduct[]>();
+    for (const record of records) {
+      const key = record.Handle || uuidv4();
+      const rows = products.get(key);
+      if (rows) rows.push(record);
+      else products.set(key, [record]);
+    }
+    return [...products.values()];
+  }
+
+  // The configured store named in the filename (the longest name if several are), otherwise 'default'
+  private storeFor(filename: string): ShopifyStoreDefaults {
+    const { stores } = config.shopify;
+    const name = Object.keys(stores)
+      .filter((store) => store !== 'default' && filename.toLowerCase().includes(store.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+    return stores[name || 'default'];
+  }
+
+  // How each mapped column of the export is imported; the store's mappings come first
+  private resolveFields(columns: string[], store: ShopifyStoreDefaults): ResolvedShopifyField[] {
+    const mappings = [...store.fields, ...config.shopify.fields];
+    for (const mapping of mappings) {
+      const error = validateFieldMapping(mapping);
+      if (error) {
+        throw new Error(`Invalid Shopify field mapping for "${mapping?.column}": ${error}`);
+      }
+    }
+
+    const fields = columns
+      .filter((column) => !isProductColumn(column))
+      .map((column) => resolveField(column, mappings))
+      .filter((field): field is ResolvedShopifyField => field !== null && field.target !== 'none');
+    console.log(`Mapped Shopify columns: ${fields.map((field) => `${field.column} -> ${field.target}`).join(', ') || 'none'}`);
+    return fields;
+  }
+
+  // A variant per row with variant fields; option names are only given on the product's first row
+  private toVariants(rows: ShopifyProduct[], product: ShopifyProduct, store: ShopifyStoreDefaults): ProductVariant[] {
+    return rows
+      .filter((row) => row['Option1 Value'] || row['Variant SKU'] || row['Variant Price'])
+      .map((row) => {
+        const options = OPTION_COLUMNS.map(([name, value]) => ({ name: product[name] || '', value: row[value] || '' }))
+          .filter((option) => option.name && option.value && option.value !== DEFAULT_VARIANT_TITLE);
+        const price = this.parsePrice(row['Variant Price']);
+        const compareAtPrice = this.parsePrice(row['Variant Compare At Price']);
+
+        return {
+          title: options.map((option) => option.value).join(' / ') || DEFAULT_VARIANT_TITLE,
+          options,
+          ...(price !== undefined && { price }),
+          ...(compareAtPrice !== undefined && { compareAtPrice }),
+          ...(row['Variant SKU'] && { sku: row['Variant SKU'] }),
+          ...(row['Variant Barcode'] && { barcode: row['Variant Barcode'] }),
+          ...this.stockOf(row, store),
+          ...(row['Variant Image'] && { image: row['Variant Image'] }),
+        };
+      });
+  }
+
+  // Shopify keeps selling a variant that has stock, isn't tracked, or may be oversold
+  private stockOf(
+    row: ShopifyProduct,
+    store: ShopifyStoreDefaults
+  ): Pick<ProductVariant, 'inventory' | 'inventoryPolicy' | 'inStock'> {
+    const inventory = this.inventoryOf(row);
+    const policy = row['Variant Inventory Policy']?.toLowerCase();
+    const inventoryPolicy = policy === 'deny' || policy === 'continue' ? policy : undefined;
+    // Exports with a tracker column leave it empty for variants whose inventory isn't tracked
+    const tracker = row['Variant Inventory Tracker'];
+    const untracked = tracker !== undefined && tracker === '';
+
+    let inStock: boolean;
+    if (inventoryPolicy === 'continue' || untracked) {
+      inStock = true;
+    } else if (inventory !== undefined) {
+      inStock = inventory > 0;
+    } else {
+      inStock = store.inStockWhenUnknown;
+    }
+
+    return {
+      ...(inventory !== undefined && { inventory }),
+      ...(inventoryPolicy && { inventoryPolicy }),
+      inStock,
+    };
+  }
+
+  // "Variant Inventory Qty", or the sum of newer exports' per-location "Inventory Available" columns
+  private inventoryOf(row: ShopifyProduct): number | undefined {
+    const quantity = this.parseNumber(row['Variant Inventory Qty']);
+    if (quantity !== undefined) return quantity;
+
+    const byLocation = Object.keys(row)
+      .filter((column) => column.startsWith('Inventory Available:'))
+      .map((column) => this.parseNumber(row[column]))
+      .filter((available): available is number => available !== undefined);
+    return byLocation.length > 0 ? byLocation.reduce((total, available) => total + available, 0) : undefined;
+  }
+
+  // Product and variant images, in export order without duplicates
+  private collectImages(rows: ShopifyProduct[]): string[] {
+    const images = rows.flatMap((row) => [row['Image Src'], row['Variant Image']]);
+    return [...new Set(images.filter((image): image is string => !!image))];
+  }
+
+  private parsePrice(value?: string): number | undefined {
+    return this.parseNumber(value?.replace(/[^0-9.-]/g, ''));
+  }
+
+  private parseNumber(value?: string): number | undefined {
+    if (!value) return undefined;
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+
+  private formatPriceRange(priceMin?: number, priceMax?: number): string {
+    if (priceMin === undefined || priceMax === undefined) return 'none';
+    return priceMin === priceMax ? `$${priceMin.toFixed(2)}` : `$${priceMin.toFixed(2)} - $${priceMax.toFixed(2)}`;
+  }
+
+  // e.g. "30ml: $24.00 (was $30.00), SKU LW-30, in stock (12 available)"
+  private formatVariant(variant: ProductVariant): string {
+    const parts: string[] = [];
+    if (variant.price !== undefined) {
+      parts.push(
+        `$${variant.price.toFixed(2)}${
+          variant.compareAtPrice !== undefined && variant.compareAtPrice > variant.price
+            ? ` (was $${variant.compareAtPrice.toFixed(2)})`
+            : ''
+        }`
+      );
+    }
+    if (variant.sku) parts.push(`SKU ${variant.sku}`);
+    const stock = this.formatStock(variant);
+    if (stock) parts.push(stock);
+    return `${variant.title}: ${parts.join(', ')}`;
+  }
+
+  // Nothing when the export says nothing about the variant's stock
+  private formatStock(variant: ProductVariant): string | undefined {
+    if (variant.inventory === undefined && !variant.inventoryPolicy) return undefined;
+    if (!variant.inStock) return 'out of stock';
+    return variant.inventory !== undefined && variant.inventory > 0
+      ? `in stock (${variant.inventory} available)`
+      : 'available to order';
+  }
+
+  private formatProductAsNaturalLanguage(
+    product: ShopifyProduct,
+    vendor: string | undefined, // the export's Vendor, or the store's default
+    variants: ProductVariant[],
+    mapped: MappedValue[],
+    priceMin?: number,
+    priceMax?: number
+  ): string {
     const parts: string[] = [];
 
     // Title and basic info
     parts.push(`Product: ${product.Title}`);
     
+    if (vendor) {
+      parts.push(`Brand: ${vendor}`);
+    }
+
     if (product.Type) {
       parts.push(`Category: ${product.Type}`);
     }
@@ -144,8 +364,15 @@ export class ShopifyCsvProcessorService {
     }
 
     // Price information
-    if (product['Variant Price']) {
-      parts.push(`Price: $${product['Variant Price']}`);
+    if (priceMin !== undefined) {
+      parts.push(`Price: ${this.formatPriceRange(priceMin, priceMax)}`);
+    }
+
+    // Variants with their own price and stock; a single default variant adds nothing to the above
+    if (variants.length > 1 || variants.some((variant) => variant.options.length > 0)) {
+      parts.push(`Variants:\n${variants.map((variant) => `- ${this.formatVariant(variant)}`).join('\n')}`);
+    } else if (variants[0] && this.formatStock(variants[0])) {
+      parts.push(`Availability: ${this.formatStock(variants[0])}`);
     }
 
     // Tags
@@ -153,39 +380,9 @@ export class ShopifyCsvProcessorService {
       parts.push(`Tags: ${product.Tags}`);
     }
 
-    // Custom metafields for additional product information
-    if (product['Metafield: custom.how_to_use [multi_line_text_field]']) {
-      parts.push(`How to Use: ${product['Metafield: custom.how_to_use [multi_line_text_field]']}`);
-    }
-
-    if (product['Metafield: custom.ingredients [multi_line_text_field]']) {
-      parts.push(`Ingredients: ${product['Metafield: custom.ingredients [multi_line_text_field]']}`);
-    }
-
-    if (product['Metafield: custom.summary_blurb [multi_line_text_field]']) {
-      parts.push(`Summary: ${product['Metafield: custom.summary_blurb [multi_line_text_field]']}`);
-    }
-
-    if (product['Metafield: custom.smells_like [multi_line_text_field]']) {
-      parts.push(`Smells Like: ${product['Metafield: custom.smells_like [multi_line_text_field]']}`);
-    }
-
-    // Essences information
-    if (product['Metafield: custom.essences_inside_names [list.single_line_text_field]']) {
-      parts.push(`Essences: ${product['Metafield: custom.essences_inside_names [list.single_line_text_field]']}`);
-    }
-
-    if (product['Metafield: custom.essences_inside_descriptors [list.single_line_text_field]']) {
-      parts.push(`Essence Descriptions: ${product['Metafield: custom.essences_inside_descriptors [list.single_line_text_field]']}`);
-    }
-
-    // SEO information
-    if (product['Metafield: title_tag [string]']) {
-      parts.push(`SEO Title: ${product['Metafield: title_tag [string]']}`);
-    }
-
-    if (product['Metafield: description_tag [string]']) {
-      parts.push(`SEO Description: ${product['Metafield: description_tag [string]']}`);
+    // Mapped columns and metafields, in export order
+    for (const { field, value } of mapped) {
+      parts.push(`${field.label}: ${formatFieldValue(value)}`);
     }
 
     // URL
@@ -193,15 +390,6 @@ export class ShopifyCsvProcessorService {
       parts.push(`Product URL: ${product.URL}`);
     }
 
-    // Collections
-    if (product['Custom Collections']) {
-      parts.push(`Custom Collections: ${product['Custom Collections']}`);
-    }
-
-    if (product['Smart Collections']) {
-      parts.push(`Smart Collections: ${product['Smart Collections']}`);
-    }
-
     return parts.join('\n');
   }
 }
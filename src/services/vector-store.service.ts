@@ -0,0 +1,112 @@
+import { config } from '@/lib/config';
+import { UPLOADED_AT_FIELD } from '@/lib/search-filter';
+import { ProcessedDocument } from '@/types';
+import { getPineconeService } from './pinecone.service';
+import { getLocalVectorStore } from './local-vector-store.service';
+
+export type VectorMetadataValue = string | number | boolean | string[];
+export type VectorMetadata = Record<string, VectorMetadataValue>;
+
+// Pinecone-style metadata filter, e.g. { source: { $eq: 'shopify' }, price: { $lte: 40 } }
+export type VectorFilter = Record<string, any>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  values?: number[];
+  metadata?: VectorMetadata;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: VectorFilter;
+  includeValues?: boolean;
+}
+
+export interface VectorStoreStats {
+  totalRecordCount: number;
+  dimension: number | null;
+}
+
+export interface VectorStore {
+  readonly name: string;
+  // Creates the index if needed; `dimension` is only used when creating it
+  initialize(dimension: number): Promise<void>;
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(query: VectorQuery): Promise<VectorMatch[]>;
+  // The stored records with these ids; ids that aren't stored are left out
+  fetch(ids: string[]): Promise<VectorRecord[]>;
+  delete(ids: string[]): Promise<void>;
+  deleteAll(): Promise<void>;
+  describeStats(): Promise<VectorStoreStats>;
+}
+
+export function buildVectorRecord(
+  document: ProcessedDocument,
+  embedding: number[]
+): VectorRecord {
+  const { metadata } = document;
+  // Vector metadata can't nest, so variants are stored as flat lists
+  const variantSkus = metadata.variants?.flatMap((variant) => (variant.sku ? [variant.sku] : [])) || [];
+  const inStockVariants = metadata.variants?.filter((variant) => variant.inStock).map((variant) => variant.title) || [];
+
+  return {
+    id: document.id,
+    values: embedding,
+    // Only filterable fields; the full chunk text lives in the chunk store. The chunk count is
+    // left to the document registry, so a document growing or shrinking doesn't touch every chunk
+    metadata: {
+      // Mapped Shopify columns first, so they can't overwrite the fields below
+      ...metadata.attributes,
+      documentId: metadata.documentId || document.id,
+      filename: document.filename,
+      source: metadata.source,
+      originalFormat: metadata.originalFormat,
+      uploadedAt: metadata.uploadedAt.toISOString(),
+      [UPLOADED_AT_FIELD]: metadata.uploadedAt.getTime(),
+      // Include all Shopify-specific metadata
+      ...(metadata.productType && { productType: metadata.productType }),
+      ...(metadata.productHandle && { productHandle: metadata.productHandle }),
+      ...(metadata.productTitle && { productTitle: metadata.productTitle }),
+      ...(metadata.vendor && { vendor: metadata.vendor }),
+      ...(metadata.type && { type: metadata.type }),
+      ...(metadata.tags && { tags: metadata.tags }),
+      ...(metadata.price !== undefined && { price: metadata.price }),
+      ...(metadata.priceMin !== undefined && { priceMin: metadata.priceMin }),
+      ...(metadata.priceMax !== undefined && { priceMax: metadata.priceMax }),
+      ...(metadata.sku && { sku: metadata.sku }),
+      ...(metadata.inStock !== undefined && { inStock: metadata.inStock }),
+      // Vector metadata can't nest, so variants are stored as flat lists
+      ...(metadata.variants?.length && { variantCount: metadata.variants.length }),
+      ...(variantSkus.length > 0 && { variantSkus }),
+      ...(inStockVariants.length > 0 && { inStockVariants }),
+      ...(metadata.images?.length && { images: metadata.images }),
+      ...(metadata.priorityScore !== undefined && { priorityScore: metadata.priorityScore }),
+      ...(metadata.url && { url: metadata.url }),
+      ...(metadata.chunkIndex !== undefined && { chunkIndex: metadata.chunkIndex }),
+      ...(metadata.charStart !== undefined && { charStart: metadata.charStart }),
+      ...(metadata.charEnd !== undefined && { charEnd: metadata.charEnd }),
+      ...(metadata.section && { section: metadata.section }),
+      ...(metadata.pageStart !== undefined && { pageStart: metadata.pageStart }),
+      ...(metadata.pageEnd !== undefined && { pageEnd: metadata.pageEnd }),
+    },
+  };
+}
+
+export const getVectorStore = (): VectorStore => {
+  switch (config.vectorStore.provider) {
+    case 'local':
+      return getLocalVectorStore();
+    case 'pinecone':
+      return getPineconeService();
+    default:
+      throw new Error(`Unknown vector store provider: ${config.vectorStore.provider}`);
+  }
+};
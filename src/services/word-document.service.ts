@@ -0,0 +1,225 @@
+// Word 97-2003 files are OLE compound documents; DOCX files are zip archives
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+/**
+ * Turn the HTML produced by mammoth into plain text that keeps the document's
+ * structure: markdown-style headings, indented bullet/numbered lists and
+ * pipe-separated table rows.
+ */
+function htmlToStructuredText(html: string): string {
+  const lines: string[] = [];
+  const lists: Array<{ ordered: boolean; count: number }> = [];
+  let table: string[][] | null = null;
+  let row: string[] | null = null;
+  let inCell = false;
+  let text = '';
+  let prefix = '';
+
+  // Write the text collected so far as one line
+  const emit = () => {
+    const line = text.replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim();
+    if (line) {
+      lines.push(prefix + line);
+    }
+    text = '';
+    prefix = '';
+  };
+
+  const tokens = html.matchAll(/<(\/?)([a-z0-9]+)[^>]*>|([^<]+)/gi);
+
+  for (const [, closing, rawTag, content] of tokens) {
+    if (content !== undefined) {
+      text += decodeEntities(content);
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    const heading = /^h([1-6])$/.exec(tag);
+
+    if (heading || tag === 'p') {
+      // Paragraphs inside list items and table cells belong to them
+      if (inCell || lists.length > 0) {
+        if (closing) text += ' ';
+      } else if (!closing) {
+        emit();
+        lines.push('');
+        prefix = heading ? `${'#'.repeat(Number(heading[1]))} ` : '';
+      } else {
+        emit();
+        lines.push('');
+      }
+    } else if (tag === 'ul' || tag === 'ol') {
+      emit();
+      if (!closing) {
+        if (lists.length === 0) lines.push('');
+        lists.push({ ordered: tag === 'ol', count: 0 });
+      } else {
+        lists.pop();
+        if (lists.length === 0) lines.push('');
+      }
+    } else if (tag === 'li') {
+      emit();
+      const list = lists[lists.length - 1];
+      if (!closing && list) {
+        list.count++;
+        prefix = '  '.repeat(lists.length - 1) + (list.ordered ? `${list.count}. ` : '- ');
+      }
+    } else if (tag === 'table') {
+      emit();
+      if (!closing) {
+        table = [];
+      } else if (table) {
+        lines.push('', ...renderTable(table), '');
+        table = null;
+      }
+    } else if (tag === 'tr') {
+      if (!closing) {
+        row = [];
+      } else if (row && table) {
+        table.push(row);
+        row = null;
+      }
+    } else if (tag === 'td' || tag === 'th') {
+      if (!closing) {
+        text = '';
+        inCell = true;
+      } else {
+        row?.push(text.replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|'));
+        text = '';
+        inCell = false;
+      }
+    } else if (tag === 'br') {
+      text += inCell ? ' ' : '\n';
+    }
+  }
+  emit();
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Word tables rarely mark header cells, so the first row is treated as the header
+function renderTable(rows: string[][]): string[] {
+  if (rows.length === 0) return [];
+
+  const width = Math.max(...rows.map((cells) => cells.length));
+  const format = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => cells[index] || '').join(' | ')} |`;
+
+  return [
+    format(rows[0]),
+    `|${' --- |'.repeat(width)}`,
+    ...rows.slice(1).map(format),
+  ];
+}
+
+/**
+ * Extracts text from Word documents. DOCX files keep their headings, lists and
+ * tables; legacy DOC files are read with word-extractor, which only exposes
+ * paragraphs (table cells come back tab-separated).
+ */
+export class WordDocumentService {
+  async extractText(buffer: Buffer, filename: string): Promise<string> {
+    // Trust the file's contents over its extension: renamed files are common
+    let text: string;
+    if (buffer.subarray(0, ZIP_SIGNATURE.length).equals(ZIP_SIGNATURE)) {
+      text = await this.extractDocx(buffer, filename);
+    } else if (buffer.subarray(0, OLE_SIGNATURE.length).equals(OLE_SIGNATURE)) {
+      text = await this.extractDoc(buffer, filename);
+    } else {
+      throw new Error(
+        `${filename} is not a valid Word document (expected a DOCX archive or a Word 97-2003 file)`
+      );
+    }
+
+    if (!text.trim()) {
+      throw new Error(`Word document contains no extractable text: ${filename}`);
+    }
+
+    console.log(`Word text extracted successfully: ${text.length} characters`);
+    return text;
+  }
+
+  private async extractDocx(buffer: Buffer, filename: string): Promise<string> {
+    console.log(`Processing DOCX file: ${filename}, buffer size: ${buffer.length} bytes`);
+
+    try {
+      const mammoth = await import('mammoth');
+      const result = await mammoth.convertToHtml(
+        { buffer },
+        // Images would only add base64 noise to the index
+        { convertImage: mammoth.images.imgElement(async () => ({ src: '' })) }
+      );
+
+      result.messages
+        .filter((message) => message.type === 'warning')
+        .forEach((message) => console.warn(`DOCX warning (${filename}): ${message.message}`));
+
+      return htmlToStructuredText(result.value);
+    } catch (error) {
+      console.error('Error parsing DOCX:', error);
+      throw new Error(`Failed to extract text from DOCX: ${filename}`);
+    }
+  }
+
+  private async extractDoc(buffer: Buffer, filename: string): Promise<string> {
+    console.log(`Processing DOC file: ${filename}, buffer size: ${buffer.length} bytes`);
+
+    try {
+      const WordExtractor = (await import('word-extractor')).default;
+      const document = await new WordExtractor().extract(buffer);
+
+      const sections = [document.getBody(), document.getFootnotes(), document.getEndnotes()];
+      return sections
+        .map((section) =>
+          section
+            .split('\n')
+            .map((line) =>
+              line.includes('\t')
+                ? `| ${line.split('\t').map((cell) => cell.trim()).join(' | ')} |`
+                : line.trim()
+            )
+            .join('\n')
+        )
+        .filter((section) => section.trim())
+        .join('\n\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+    } catch (error) {
+      console.error('Error parsing DOC:', error);
+      throw new Error(
+        `Failed to extract text from DOC: ${filename}. The file may be corrupted or password-protected; try saving it as DOCX`
+      );
+    }
+  }
+}
+
+// Singleton instance
+let wordDocumentService: WordDocumentService | null = null;
+
+export const getWordDocumentService = (): WordDocumentService => {
+  if (!wordDocumentService) {
+    wordDocumentService = new WordDocumentService();
+  }
+  return wordDocumentService;
+};
@@ -0,0 +1,29 @@
+import { after } from 'node:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/** A temporary directory for one test file, removed once its tests have run. */
+export function temporaryDirectory(name: string): string {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), `rag-${name}-test-`));
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+  return directory;
+}
+
+/**
+ * Point the services at a temporary local store, the hash embedder and the stub LLM.
+ *
+ * Config is read at import time, so call this before importing any service (import them
+ * dynamically in `before`). Returns the data directory.
+ */
+export function useTestEnvironment(name: string, env: Record<string, string> = {}): string {
+  const dataDir = temporaryDirectory(name);
+  Object.assign(process.env, {
+    DATA_DIR: dataDir,
+    VECTOR_STORE_PROVIDER: 'local',
+    EMBEDDING_PROVIDER: 'hash',
+    LLM_PROVIDER: 'stub',
+    ...env,
+  });
+  return dataDir;
+}
@@ -2,6 +2,7 @@ export interface FileUploadResponse {
   success: boolean;
   message: string;
   documentId?: string;
+  jobId?: string;
   error?: string;
 }
 
@@ -11,6 +12,24 @@ export interface ProcessedDocument {
   content: string;
   metadata: DocumentMetadata;
   embedding?: number[];
+  childDocumentIds?: string[]; // documents created by a batch import (Shopify, webpages)
+  changes?: IngestChanges;
+  failures?: IngestFailure[]; // records of a batch import that could not be stored
+}
+
+// What an ingest wrote: chunks for a file, products or pages for a batch import
+export interface IngestChanges {
+  added: number;
+  updated: number;
+  unchanged: number; // already stored with the same content, not embedded again
+  removed: number; // left over from the previous version and deleted
+}
+
+// A product or page a batch import skipped because it could not be embedded or stored
+export interface IngestFailure {
+  id: string;
+  title?: string;
+  error: string;
 }
 
 export type FileType = 'text' | 'audio' | 'video';
@@ -20,6 +39,17 @@ export interface DocumentMetadata {
   originalFormat: string;
   uploadedAt: Date;
   processingSteps?: string[];
+  // Chunk position within the parent document
+  documentId?: string;
+  chunkIndex?: number;
+  totalChunks?: number;
+  // Character range of the chunk within the document's extracted text
+  charStart?: number;
+  charEnd?: number;
+  section?: string; // heading path, e.g. "Benefits > Pensions"
+  // PDF pages covered by the chunk (1-based, inclusive)
+  pageStart?: number;
+  pageEnd?: number;
   // Shopify-specific metadata
   productType?: string;
   productHandle?: string;
@@ -27,24 +57,236 @@ export interface DocumentMetadata {
   vendor?: string;
   type?: string;
   tags?: string[];
-  price?: number;
+  price?: number; // lowest variant price
+  priceMin?: number;
+  priceMax?: number;
   sku?: string;
-  inStock?: boolean;
+  inStock?: boolean; // any variant in stock
+  variants?: ProductVariant[];
+  images?: string[];
+  attributes?: Record<string, ShopifyFieldValue>; // Shopify columns and metafields mapped to metadata
   priorityScore?: number;
   duration?: number; // for audio/video files
   url?: string; // for Shopify product URLs
 }
 
+// One purchasable option of a Shopify product, e.g. the 30ml bottle
+export interface ProductVariant {
+  title: string; // option values joined, e.g. "30ml / Glass"; "Default Title" for products without options
+  options: Array<{ name: string; value: string }>;
+  price?: number;
+  compareAtPrice?: number;
+  sku?: string;
+  barcode?: string;
+  inventory?: number; // absent when the export has no quantity for the variant
+  inventoryPolicy?: 'deny' | 'continue'; // 'continue' keeps selling when out of stock
+  inStock: boolean;
+  image?: string;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// A numbered source backing part of a generated answer
+export interface Citation {
+  number: number;
+  chunkId: string;
+  documentId: string;
+  filename?: string;
+  title?: string;
+  url?: string;
+  location?: string; // e.g. "page 12 of handbook.pdf"
+  score: number;
+  snippet: string;
+}
+
+export interface AnswerResult {
+  answer: string;
+  answered: boolean; // false when the sources didn't cover the question
+  citations: Citation[];
+  expandedQueries?: ExpandedQuery[]; // with multi-query or HyDE retrieval
+}
+
+export type RerankerName = 'llm' | 'http' | 'lexical';
+
+// How a query is turned into embeddings: as is, with generated paraphrases, or via a hypothetical answer (HyDE)
+export type QueryMode = 'standard' | 'multi-query' | 'hyde';
+
+// A text searched for in place of, or alongside, the user's query
+export interface ExpandedQuery {
+  text: string;
+  kind: 'original' | 'paraphrase' | 'hypothetical';
+}
+
+// Conditions use the /api/search filter language, e.g. { "source": "shopify", "inStock": true }
+export type RankingCondition = Record<string, unknown>;
+
+export type RankingBoost =
+  // Flat bonus for matches meeting the condition
+  | { type: 'match'; when: RankingCondition; weight: number }
+  // Bonus proportional to a numeric metadata field: weight * value / scale
+  | { type: 'field'; field: string; weight: number; scale?: number; when?: RankingCondition }
+  // Bonus that halves every `halfLifeDays` after upload
+  | { type: 'recency'; weight: number; halfLifeDays: number; when?: RankingCondition };
+
+// What a Shopify import assumes where a store's export has no value
+export interface ShopifyStoreDefaults {
+  vendor: string; // for products without a Vendor; empty to leave it unset
+  skuFromHandle: boolean; // use the handle as the product SKU when no variant has one
+  inStockWhenUnknown: boolean; // for variants with neither an inventory quantity nor tracking
+  fields: ShopifyFieldMapping[]; // this store's mappings, checked before the shared ones
+}
+
+// Where a mapped Shopify column ends up: the embedded text, filterable metadata, both, or nowhere
+export type ShopifyFieldTarget = 'text' | 'metadata' | 'both' | 'none';
+
+export type ShopifyFieldParser = 'text' | 'rich-text' | 'list' | 'number' | 'boolean' | 'file-reference';
+
+export type ShopifyFieldValue = string | number | boolean | string[];
+
+/**
+ * Maps CSV columns matching `column` to a target. `column` is a column name, or a pattern where
+ * `*` matches anything, e.g. "Metafield: custom.* [*]" for every metafield in the custom namespace.
+ * Label, field and parser default from the column: for "Metafield: custom.smells_like
+ * [multi_line_text_field]" they are "Smells like", smellsLike and 'text'.
+ */
+export interface ShopifyFieldMapping {
+  column: string;
+  target: ShopifyFieldTarget;
+  label?: string; // in the embedded text
+  field?: string; // metadata field name
+  parser?: ShopifyFieldParser;
+}
+
+export interface RankingPolicyDefinition {
+  description?: string;
+  // Shares of the result list reserved for groups of matches; unfilled slots go to the best remaining matches
+  quotas?: Array<{ name: string; when?: RankingCondition; share: number }>;
+  boosts?: RankingBoost[];
+  // Matches scoring below this (before boosts) are dropped
+  minScore?: number;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number; // fused score when keyword search contributed
+  retrievers: Array<'vector' | 'lexical'>;
+  vectorScore?: number;
+  lexicalScore?: number;
+  originalScore?: number; // retrieval score, when the results were reranked
+  rerankScore?: number;
+  // Other chunks of the same document or product, when results are collapsed
+  collapsed?: Array<{ id: string; score: number; chunkIndex?: number }>;
+  documentId: string;
+  filename?: string;
+  source?: string;
+  citation?: string;
+  content?: string; // only with includeContent
+  metadata: Record<string, unknown>;
+}
+
+export interface SearchResults {
+  results: SearchHit[];
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  expandedQueries?: ExpandedQuery[]; // with multi-query or HyDE retrieval
+}
+
+// Request options of /api/query-products that an evaluation query can set
+export interface EvaluationQueryOptions {
+  prioritizeProducts?: boolean;
+  lexicalWeight?: number;
+  rerank?: unknown; // same forms as the route's `rerank` field
+  rankingPolicy?: string;
+  diversity?: number;
+  collapse?: 'document' | 'handle';
+  queryMode?: QueryMode;
+}
+
+// A query and the results a good search returns for it; a hit is relevant when any expected id matches it
+export interface GoldenQuery {
+  id: string;
+  query: string;
+  expected: {
+    documentIds?: string[];
+    handles?: string[];
+    filenames?: string[]; // stable across re-ingestion, unlike document ids
+  };
+  options?: EvaluationQueryOptions;
+}
+
+export interface GoldenSet {
+  name?: string;
+  // Files ingested into a fresh local store for offline runs, relative to the golden set file
+  corpus?: string[];
+  k?: number;
+  options?: EvaluationQueryOptions; // defaults for every query
+  queries: GoldenQuery[];
+}
+
+export interface RetrievalMetrics {
+  recall: number; // share of the expected results found in the top k
+  mrr: number; // reciprocal rank of the first relevant hit
+  ndcg: number; // normalized discounted cumulative gain at k, binary relevance
+}
+
+export interface QueryEvaluation extends RetrievalMetrics {
+  id: string;
+  query: string;
+  found: string[];
+  missing: string[];
+  hits: string[]; // what the top k hits were, e.g. "handle:rain-jacket" or "filename:faq.md"
+}
+
+export interface EvaluationRun {
+  name?: string;
+  createdAt: string;
+  k: number;
+  settings: Record<string, unknown>; // embedder, store and ranking settings the run used
+  metrics: RetrievalMetrics;
+  queries: QueryEvaluation[];
+}
+
+export interface ChatSessionMessage extends ChatMessage {
+  citations?: Citation[];
+  createdAt: string;
+}
+
+// A conversation persisted so a client can resume it by id
+export interface ChatSession {
+  id: string;
+  messages: ChatSessionMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ChunkingStrategyName = 'token' | 'markdown' | 'recursive' | 'fixed';
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategyName;
+  chunkSize: number; // tokens for the token strategy, characters for the others
+  chunkOverlap: number;
+}
+
 export interface UploadProgress {
   stage: 'uploading' | 'processing' | 'embedding' | 'storing' | 'complete';
   progress: number;
   message: string;
 }
 
+// Final event of an upload's progress stream
+export interface JobCompleteEvent extends UploadProgress {
+  documentIds: string[];
+}
+
 export interface FileUploadItem {
   id: string;
   file: File;
   status: 'pending' | 'uploading' | 'processing' | 'complete' | 'error';
+  stage?: UploadProgress['stage'];
   progress: number;
   message: string;
   documentId?: string;
@@ -56,4 +298,24 @@ export interface BatchUploadStats {
   completed: number;
   failed: number;
   inProgress: number;
-} 
\ No newline at end of file
+}
+
+export type IngestionJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface IngestionJob {
+  id: string;
+  filename: string;
+  filePath: string;
+  status: IngestionJobStatus;
+  stage: string;
+  progress: number;
+  message: string;
+  error?: string;
+  documentIds: string[];
+  failures?: IngestFailure[];
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
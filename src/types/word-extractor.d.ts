@@ -0,0 +1,14 @@
+declare module 'word-extractor' {
+  interface WordDocument {
+    getBody(): string;
+    getFootnotes(): string;
+    getEndnotes(): string;
+    getHeaders(options?: { includeFooters?: boolean }): string;
+    getFooters(): string;
+  }
+
+  export default class WordExtractor {
+    constructor();
+    extract(source: string | Buffer): Promise<WordDocument>;
+  }
+}